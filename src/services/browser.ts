@@ -1,99 +1,261 @@
 // src/services/browser.ts
 // ブラウザ操作の専用サービス
 
-import puppeteer, { Browser, Page } from 'puppeteer';
-import { BrowserConfig, MCPResponse } from '../types/interfaces.js';
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BrowserConfig, BrowserTabInfo, MCPResponse, PageSnapshot, PageState, ScreenshotOptions } from '../types/interfaces.js';
 import { humanDelay, getRandomUserAgent, setupAntiDetection } from '../utils/human-behavior.js';
+import { getDataPath, getScreenshotDir } from '../utils/paths.js';
+import { assertAllowedUrl, normalizeNavigationUrl } from '../utils/domain-allowlist.js';
+import { RequestBudget, DEFAULT_BUDGET_LIMITS } from './request-budget.js';
+import { detectPageState } from './page-state.js';
+
+// start_browser で最初に開くタブのID
+export const DEFAULT_TAB_ID = 'main';
+
+interface BrowserTab {
+  id: string;
+  page: Page;
+  context: BrowserContext | null; // 別アカウント用の分離コンテキスト（既定コンテキストならnull）
+  createdAt: string;
+  lastUrl: string;   // クラッシュ復旧時に開き直すURL
+  crashed: boolean;
+}
+
+// クラッシュ復旧でタブのページが差し替えられたときの通知
+export type TabRecoveredListener = (tabId: string, page: Page) => void;
 
 export class BrowserService {
   private browser: Browser | null = null;
-  private page: Page | null = null;
+  private tabs = new Map<string, BrowserTab>();
+  private activeTabId: string | null = null;
+  private activeProfile: string | null = null;
+  private viewport = { width: 1366, height: 768 };
+  private lastConfig: BrowserConfig | null = null;
+  private closing = false;
+  private recovery: Promise<string[]> | null = null;
+  private recoveredListeners: TabRecoveredListener[] = [];
+  // 全タブで共有するリクエスト予算（Xの制限はアカウント単位のため、再起動してもクールダウンは維持）
+  private budget = new RequestBudget();
 
   /**
-   * ブラウザを起動
+   * ブラウザを起動（profile 指定時は ~/.x-collector/profiles/<profile> を userDataDir として再利用）
    */
   async startBrowser(config: BrowserConfig = {}): Promise<MCPResponse> {
     const {
       slowMo = 200,
       viewportWidth = 1366,
       viewportHeight = 768,
-      headless = false
+      headless = false,
+      profile,
+      budget
     } = config;
 
+    if (profile !== undefined && !/^[A-Za-z0-9_-]+$/.test(profile)) {
+      throw new Error(`プロファイル名には英数字・ハイフン・アンダースコアのみ使用できます: ${profile}`);
+    }
+    const userDataDir = profile ? getDataPath('profiles', profile) : undefined;
+    this.budget.setLimits(DEFAULT_BUDGET_LIMITS);
+    const limits = this.budget.setLimits(budget ?? {});
+
     try {
-      this.browser = await puppeteer.launch({
-        headless,
-        slowMo,
-        args: [
-          '--no-sandbox',
-          '--disable-blink-features=AutomationControlled',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--disable-automation',
-          '--disable-dev-shm-usage',
-          `--window-size=${viewportWidth},${viewportHeight}`
-        ]
-      });
+      this.browser = await this.launch({ slowMo, viewportWidth, viewportHeight, headless, profile });
+      this.lastConfig = { ...config };
 
-      this.page = await this.browser.newPage();
-      
-      // User-Agent設定
-      await this.page.setUserAgent(getRandomUserAgent());
-      await this.page.setViewport({ width: viewportWidth, height: viewportHeight });
-      
-      // 自動化検出回避
-      await setupAntiDetection(this.page);
+      this.viewport = { width: viewportWidth, height: viewportHeight };
+      await this.registerTab(DEFAULT_TAB_ID, await this.browser.newPage(), null);
+
+      this.activeProfile = profile || null;
 
       return {
         content: [{
           type: "text",
-          text: `🚀 ブラウザを起動しました（${viewportWidth}x${viewportHeight}、slowMo: ${slowMo}ms）`
+          text: `🚀 ブラウザを起動しました（${viewportWidth}x${viewportHeight}、slowMo: ${slowMo}ms）\n` +
+                (profile
+                  ? `👤 プロファイル: ${profile}（${userDataDir}）\n💡 ログイン状態は次回以降も引き継がれます`
+                  : `👤 プロファイル: 一時プロファイル（終了時にログイン状態は破棄されます）`) +
+                `\n⏱️ リクエスト予算: 分 ${limits.perMinute}・時 ${limits.perHour}・日 ${limits.perDay}回`
         }]
       };
     } catch (error) {
-      throw new Error(`ブラウザの起動に失敗しました: ${error}`);
+      throw new Error(`ブラウザの起動に失敗しました${profile ? `（プロファイル「${profile}」が他のブラウザで使用中の可能性があります）` : ''}: ${error}`);
     }
   }
 
   /**
-   * 指定したURLに移動
+   * Chromiumを起動し、予期しない切断を監視
    */
-  async navigateToUrl(url: string): Promise<void> {
-    if (!this.page) {
-      throw new Error("ブラウザが起動していません。先にstartBrowserを実行してください。");
-    }
+  private async launch(config: Required<Omit<BrowserConfig, 'profile' | 'budget'>> & { profile?: string }): Promise<Browser> {
+    const { slowMo, viewportWidth, viewportHeight, headless, profile } = config;
+    const userDataDir = profile ? getDataPath('profiles', profile) : undefined;
 
+    const browser = await puppeteer.launch({
+      headless,
+      slowMo,
+      userDataDir,
+      args: [
+        '--no-sandbox',
+        '--disable-blink-features=AutomationControlled',
+        '--disable-web-security',
+        '--disable-features=VizDisplayCompositor',
+        '--disable-automation',
+        '--disable-dev-shm-usage',
+        `--window-size=${viewportWidth},${viewportHeight}`
+      ]
+    });
+
+    browser.once('disconnected', () => {
+      if (this.closing || this.browser !== browser) return;
+      console.error('💥 ブラウザとの接続が切断されました。自動で再起動します...');
+      this.recoverInBackground();
+    });
+
+    return browser;
+  }
+
+  /**
+   * 指定したURLに移動し、移動後のページ状態を返す（許可リスト外のドメインには移動しない）
+   */
+  async navigateToUrl(url: string, tabId?: string): Promise<PageState> {
+    assertAllowedUrl(url);
+    const page = this.getPage(tabId);
+
+    await this.budget.acquire('navigation');
     await humanDelay(1000, 2000);
-    await this.page.goto(url, {
+    await page.goto(url, {
       waitUntil: 'networkidle2',
       timeout: 30000
     });
     await humanDelay(2000, 4000);
+    await this.budget.checkPage(page);
+    return detectPageState(page);
   }
 
   /**
-   * スクリーンショットを撮影
+   * 履歴を1つ戻り、移動後のページ状態を返す（戻れる履歴がない場合は null）
+   * XはSPAのため履歴移動でレスポンスが返らないことがあり、URLの変化で判定する
    */
-  async takeScreenshot(filename?: string): Promise<MCPResponse> {
-    if (!this.page) {
-      throw new Error("ブラウザが起動していません。");
-    }
+  async goBack(tabId?: string): Promise<PageState | null> {
+    const page = this.getPage(tabId);
+    const before = page.url();
 
-    try {
-      const finalFilename = filename || "screenshot.png";
-      const fileWithExt = finalFilename.endsWith(".png") ? finalFilename : `${finalFilename}.png`;
-      
-      await this.page.screenshot({ 
-        path: fileWithExt as `${string}.png`,
-        fullPage: true,
-        type: 'png'
+    await this.budget.acquire('navigation');
+    await humanDelay(500, 1500);
+    await page.goBack({ waitUntil: 'networkidle2', timeout: 30000 });
+    if (page.url() === before) return null;
+    await humanDelay(1500, 3000);
+    await this.budget.checkPage(page);
+    return detectPageState(page);
+  }
+
+  /**
+   * ページを再読み込みし、ページ状態を返す
+   */
+  async reload(tabId?: string): Promise<PageState> {
+    const page = this.getPage(tabId);
+
+    await this.budget.acquire('navigation');
+    await humanDelay(500, 1500);
+    await page.reload({ waitUntil: 'networkidle2', timeout: 30000 });
+    await humanDelay(1500, 3000);
+    await this.budget.checkPage(page);
+    return detectPageState(page);
+  }
+
+  /**
+   * メインカラムに表示されているテキストとリンクを読み取る
+   */
+  async readPage(tabId?: string, maxChars: number = 4000, maxLinks: number = 50): Promise<PageSnapshot> {
+    const page = this.getPage(tabId);
+
+    const raw = await page.evaluate(() => {
+      const root = document.querySelector('[data-testid="primaryColumn"]')
+        || document.querySelector('main')
+        || document.body;
+      const isVisible = (el: Element) => (el as HTMLElement).getClientRects().length > 0;
+
+      const links: Array<{ text: string; url: string }> = [];
+      root.querySelectorAll('a[href]').forEach(anchor => {
+        const href = (anchor as HTMLAnchorElement).href;
+        if (!href || href.startsWith('javascript:') || !isVisible(anchor)) return;
+        const text = ((anchor as HTMLElement).innerText || anchor.getAttribute('aria-label') || '')
+          .replace(/\s+/g, ' ')
+          .trim();
+        links.push({ text, url: href });
       });
-      
+
+      return {
+        title: document.title,
+        text: (root as HTMLElement).innerText || '',
+        links
+      };
+    });
+
+    // 空行をまとめ、同じリンク先は最初の1件だけ残す
+    const text = raw.text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    const seen = new Set<string>();
+    const links = raw.links.filter(link => {
+      if (seen.has(link.url)) return false;
+      seen.add(link.url);
+      return true;
+    });
+
+    return {
+      url: page.url(),
+      title: raw.title,
+      text: text.length > maxChars ? text.slice(0, maxChars) : text,
+      truncated: text.length > maxChars,
+      links: links.slice(0, maxLinks)
+    };
+  }
+
+  /**
+   * スクリーンショットを撮影し、MCPの画像コンテンツとして返す（保存は任意）
+   * 保存先は X_COLLECTOR_SCREENSHOT_DIR（未設定時は ~/.x-collector/screenshots）
+   */
+  async takeScreenshot(options: ScreenshotOptions = {}): Promise<MCPResponse> {
+    const { filename, save = false, tweetId, selector, fullPage = false, tabId } = options;
+    const page = this.getPage(tabId);
+
+    try {
+      let data: string;
+      let target: string;
+
+      if (tweetId || selector) {
+        const element = tweetId
+          ? (await page.evaluateHandle((id: string) =>
+              Array.from(document.querySelectorAll('article'))
+                .find(article => article.querySelector(`a[href*="/status/${id}"] time`)) || null, tweetId)).asElement()
+          : await page.$(selector!);
+        if (!element) {
+          throw new Error(tweetId ? `ツイート ${tweetId} が表示されていません` : `セレクタ ${selector} に一致する要素がありません`);
+        }
+
+        data = await element.screenshot({ type: 'png', encoding: 'base64' });
+        await element.dispose();
+        target = tweetId ? `ツイート ${tweetId}` : `要素 ${selector}`;
+      } else {
+        data = await page.screenshot({ type: 'png', encoding: 'base64', fullPage });
+        target = fullPage ? 'ページ全体' : '表示領域';
+      }
+
+      let savedPath: string | null = null;
+      if (filename || save) {
+        const baseName = path.basename(filename || `screenshot-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+        savedPath = path.join(getScreenshotDir(), baseName.endsWith('.png') ? baseName : `${baseName}.png`);
+        await fs.mkdir(path.dirname(savedPath), { recursive: true });
+        await fs.writeFile(savedPath, Buffer.from(data, 'base64'));
+      }
+
       return {
         content: [{
           type: "text",
-          text: `📸 スクリーンショットを ${finalFilename} に保存しました。`
-        }]
+          text: `📸 スクリーンショットを撮影しました（${target}）` +
+                (savedPath ? `\n💾 保存先: ${savedPath}` : '')
+        }],
+        images: [{ type: "image", data, mimeType: "image/png" }],
+        savedPath: savedPath ?? undefined
       };
     } catch (error) {
       throw new Error(`スクリーンショットの撮影に失敗しました: ${error}`);
@@ -105,9 +267,17 @@ export class BrowserService {
    */
   async closeBrowser(): Promise<MCPResponse> {
     if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      this.page = null;
+      this.closing = true;
+      try {
+        if (this.browser.connected) await this.browser.close();
+      } finally {
+        this.closing = false;
+        this.browser = null;
+        this.tabs.clear();
+        this.activeTabId = null;
+        this.activeProfile = null;
+        this.lastConfig = null;
+      }
     }
 
     return {
@@ -118,24 +288,325 @@ export class BrowserService {
     };
   }
 
+  /**
+   * 新しいタブを開く（isolated 指定時はCookieを共有しない別コンテキストで開き、別アカウントでのログインに使う）
+   */
+  async openTab(tabId?: string, options: { url?: string; isolated?: boolean } = {}): Promise<BrowserTabInfo> {
+    if (!this.browser) {
+      throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
+    }
+
+    const id = tabId || this.nextTabId();
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+      throw new Error(`タブIDには英数字・ハイフン・アンダースコアのみ使用できます: ${id}`);
+    }
+    if (this.tabs.has(id)) {
+      throw new Error(`タブ「${id}」は既に存在します。`);
+    }
+
+    // 許可されていないURLはページを作る前に弾く（"/explore" のようなパスはx.com基準で補完）
+    const url = options.url ? normalizeNavigationUrl(options.url) : undefined;
+    if (url) assertAllowedUrl(url);
+
+    const context = options.isolated ? await this.browser.createBrowserContext() : null;
+    const page = context ? await context.newPage() : await this.browser.newPage();
+    await this.registerTab(id, page, context);
+
+    if (url) {
+      // 移動に失敗したタブは残さない（呼び出し側にタブが登録されないまま残るのを防ぐ）
+      try {
+        await this.navigateToUrl(url, id);
+      } catch (error) {
+        this.tabs.delete(id);
+        if (this.activeTabId === id) this.activeTabId = this.tabs.keys().next().value ?? null;
+        await page.close().catch(() => {});
+        if (context) await context.close().catch(() => {});
+        throw error;
+      }
+    }
+    return this.describeTab(this.tabs.get(id)!);
+  }
+
+  /**
+   * 開いているタブの一覧
+   */
+  async listTabs(): Promise<BrowserTabInfo[]> {
+    return Promise.all([...this.tabs.values()].map(tab => this.describeTab(tab)));
+  }
+
+  /**
+   * アクティブなタブを切り替え（tabId未指定のツールはこのタブを操作する）
+   */
+  async switchTab(tabId: string): Promise<BrowserTabInfo> {
+    const tab = this.getTab(tabId);
+    await tab.page.bringToFront();
+    this.activeTabId = tab.id;
+    return this.describeTab(tab);
+  }
+
+  /**
+   * タブを閉じる（最後の1つは close_browser で終了する）
+   */
+  async closeTab(tabId: string): Promise<string | null> {
+    const tab = this.getTab(tabId);
+    if (this.tabs.size === 1) {
+      throw new Error("最後のタブは閉じられません。ブラウザごと終了する場合はclose_browserを使用してください。");
+    }
+
+    await tab.page.close();
+    if (tab.context) await tab.context.close();
+    this.tabs.delete(tab.id);
+
+    if (this.activeTabId === tab.id) {
+      this.activeTabId = this.tabs.keys().next().value ?? null;
+    }
+    return this.activeTabId;
+  }
+
+  /**
+   * タブIDを解決（未指定時はアクティブなタブ）
+   */
+  resolveTabId(tabId?: string): string | null {
+    if (tabId) return this.getTab(tabId).id;
+    return this.activeTabId;
+  }
+
+  /**
+   * アクティブなタブのID
+   */
+  getActiveTabId(): string | null {
+    return this.activeTabId;
+  }
+
+  /**
+   * 指定タブ（未指定時はアクティブなタブ）のページを取得
+   */
+  getPage(tabId?: string): Page {
+    if (!this.browser) {
+      throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
+    }
+    const tab = this.getTab(tabId ?? this.activeTabId ?? DEFAULT_TAB_ID);
+    if (tab.crashed || !this.browser.connected) {
+      throw new Error(`タブ「${tab.id}」はクラッシュしています。復旧処理の完了後に再実行してください。`);
+    }
+    return tab.page;
+  }
+
   /**
    * 現在のページを取得
    */
   getCurrentPage(): Page | null {
-    return this.page;
+    return this.activeTabId ? this.tabs.get(this.activeTabId)?.page ?? null : null;
+  }
+
+  /**
+   * 使用中の永続プロファイル名（一時プロファイルの場合はnull）
+   */
+  getActiveProfile(): string | null {
+    return this.activeProfile;
   }
 
   /**
    * ブラウザの状態確認
    */
   isReady(): boolean {
-    return this.browser !== null && this.page !== null;
+    return this.browser !== null && this.browser.connected && this.tabs.size > 0 &&
+      [...this.tabs.values()].some(tab => !tab.crashed && !tab.page.isClosed());
+  }
+
+  /**
+   * 切断・クラッシュを検知済みで復旧が必要か
+   */
+  needsRecovery(): boolean {
+    if (this.recovery) return true;
+    if (!this.lastConfig) return false;
+    if (!this.browser || !this.browser.connected) return true;
+    return [...this.tabs.values()].some(tab => tab.crashed);
+  }
+
+  /**
+   * 人間向けの操作ページを、タブ一覧に含めない別ページとして開く
+   */
+  async openControlPage(url: string): Promise<Page | null> {
+    if (!this.browser?.connected) return null;
+
+    const page = await this.browser.newPage();
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 10000 });
+    return page;
+  }
+
+  /**
+   * 操作ページを閉じ、アクティブなタブを前面に戻す
+   */
+  async closeControlPage(page: Page): Promise<void> {
+    await page.close().catch(() => undefined);
+    await this.getCurrentPage()?.bringToFront().catch(() => undefined);
+  }
+
+  /**
+   * ブラウザセッションで共有するリクエスト予算
+   */
+  getBudget(): RequestBudget {
+    return this.budget;
+  }
+
+  /**
+   * 復旧が必要なら実行（進行中の復旧があれば完了を待つ）。復旧した場合は復元したタブの説明を返す
+   */
+  async recoverIfNeeded(): Promise<string[] | null> {
+    if (!this.needsRecovery()) return null;
+    return this.startRecovery();
+  }
+
+  /**
+   * 復旧でタブのページが差し替えられたときの通知先を登録
+   */
+  onTabRecovered(listener: TabRecoveredListener): void {
+    this.recoveredListeners.push(listener);
+  }
+
+  /**
+   * イベントリスナーから復旧を開始（失敗しても lastConfig は残るため、次のツール実行時に recoverIfNeeded で再試行される）
+   */
+  private recoverInBackground(): void {
+    void this.startRecovery().catch(error => {
+      console.error(`⚠️ ブラウザの自動復旧に失敗しました。次のツール実行時に再試行します: ${error}`);
+    });
+  }
+
+  private startRecovery(): Promise<string[]> {
+    if (!this.recovery) {
+      this.recovery = this.recover().finally(() => {
+        this.recovery = null;
+      });
+    }
+    return this.recovery;
+  }
+
+  /**
+   * 同じ設定でブラウザを再起動（またはクラッシュしたタブを作り直し）、各タブの最後のURLを開き直す
+   */
+  private async recover(): Promise<string[]> {
+    const config = this.lastConfig;
+    if (!config) return [];
+
+    const restored: string[] = [];
+    const snapshot = [...this.tabs.values()];
+    const activeTabId = this.activeTabId;
+    const relaunch = !this.browser || !this.browser.connected;
+
+    if (relaunch) {
+      await this.browser?.close().catch(() => undefined);
+      this.browser = await this.launch({
+        slowMo: config.slowMo ?? 200,
+        viewportWidth: config.viewportWidth ?? 1366,
+        viewportHeight: config.viewportHeight ?? 768,
+        headless: config.headless ?? false,
+        profile: config.profile
+      });
+    }
+
+    for (const tab of snapshot) {
+      if (!relaunch && !tab.crashed) continue;
+
+      if (!relaunch) await tab.page.close().catch(() => undefined);
+      const context = tab.context
+        ? (relaunch ? await this.browser!.createBrowserContext() : tab.context)
+        : null;
+      const page = context ? await context.newPage() : await this.browser!.newPage();
+
+      this.tabs.delete(tab.id);
+      await this.registerTab(tab.id, page, context, tab.createdAt);
+      if (tab.lastUrl && tab.lastUrl !== 'about:blank') {
+        await page.goto(tab.lastUrl, { waitUntil: 'networkidle2', timeout: 30000 })
+          .catch(error => console.error(`⚠️ タブ「${tab.id}」のURLを復元できませんでした: ${error}`));
+      }
+
+      this.recoveredListeners.forEach(listener => listener(tab.id, page));
+      restored.push(`${tab.id}: ${tab.lastUrl || 'about:blank'}${tab.context && relaunch ? '（分離セッションのログインは再度必要です）' : ''}`);
+    }
+
+    if (activeTabId && this.tabs.has(activeTabId)) this.activeTabId = activeTabId;
+
+    console.error(`♻️ ブラウザを復旧しました（${restored.length}タブ）`);
+    return restored;
   }
 
   /**
    * ページの存在確認
    */
   hasPage(): boolean {
-    return this.page !== null;
+    return this.getCurrentPage() !== null;
+  }
+
+  /**
+   * ページに共通設定（User-Agent・ビューポート・自動化検出回避）を適用してタブとして登録
+   */
+  private async registerTab(
+    id: string,
+    page: Page,
+    context: BrowserContext | null,
+    createdAt: string = new Date().toISOString()
+  ): Promise<void> {
+    await page.setUserAgent(getRandomUserAgent());
+    await page.setViewport(this.viewport);
+    await setupAntiDetection(page);
+
+    const tab: BrowserTab = { id, page, context, createdAt, lastUrl: page.url(), crashed: false };
+    this.tabs.set(id, tab);
+    if (!this.activeTabId) this.activeTabId = id;
+
+    // 復旧時に開き直すため最後のURLを記録
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame()) tab.lastUrl = frame.url();
+    });
+
+    // XのAPIが429を返したら、x-rate-limit-reset（UNIX秒）までクールダウン
+    page.on('response', response => {
+      if (response.status() !== 429 || !response.url().includes('/i/api/')) return;
+      const reset = Number(response.headers()['x-rate-limit-reset']);
+      this.budget.reportBlocked('rate_limited', reset > 0 ? reset * 1000 : undefined);
+    });
+
+    // レンダラーのクラッシュ（targetcrashed）
+    page.on('error', error => {
+      if (this.tabs.get(id)?.page !== page) return;
+      console.error(`💥 タブ「${id}」がクラッシュしました: ${error}`);
+      tab.crashed = true;
+      this.recoverInBackground();
+    });
+
+    // ブラウザ側で直接閉じられたタブは一覧から外す（ブラウザ自体の切断時は復旧のため残す）
+    page.once('close', () => {
+      if (this.tabs.get(id)?.page !== page || !this.browser?.connected || this.closing) return;
+      this.tabs.delete(id);
+      if (this.activeTabId === id) this.activeTabId = this.tabs.keys().next().value ?? null;
+    });
+  }
+
+  private getTab(tabId: string): BrowserTab {
+    const tab = this.tabs.get(tabId);
+    if (!tab) {
+      const known = [...this.tabs.keys()].join(', ') || 'なし';
+      throw new Error(`タブ「${tabId}」が見つかりません（開いているタブ: ${known}）`);
+    }
+    return tab;
+  }
+
+  private nextTabId(): string {
+    let index = this.tabs.size + 1;
+    while (this.tabs.has(`tab-${index}`)) index++;
+    return `tab-${index}`;
+  }
+
+  private async describeTab(tab: BrowserTab): Promise<BrowserTabInfo> {
+    return {
+      tabId: tab.id,
+      url: tab.page.url(),
+      title: await tab.page.title().catch(() => ''),
+      isolated: tab.context !== null,
+      active: tab.id === this.activeTabId,
+      createdAt: tab.createdAt
+    };
   }
-}
\ No newline at end of file
+}
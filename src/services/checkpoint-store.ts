@@ -0,0 +1,48 @@
+// src/services/checkpoint-store.ts
+// 収集途中のツイートをディスクに保存し、クラッシュ後に続きから再開できるようにするサービス
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { CollectionCheckpoint } from '../types/interfaces.js';
+import { getDataPath } from '../utils/paths.js';
+
+export class CheckpointStore {
+  constructor(private baseDir: string = getDataPath('checkpoints')) {}
+
+  /**
+   * 対象キーのチェックポイントを取得
+   */
+  async get(key: string): Promise<CollectionCheckpoint | null> {
+    try {
+      const content = await fs.readFile(this.getFilePath(key), 'utf8');
+      return JSON.parse(content) as CollectionCheckpoint;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new Error(`チェックポイントの読み込みに失敗しました: ${error}`);
+    }
+  }
+
+  /**
+   * 収集途中の状態を保存（一時ファイル経由で書き込み、書き込み中のクラッシュでも壊れないようにする）
+   */
+  async save(checkpoint: CollectionCheckpoint): Promise<void> {
+    const filePath = this.getFilePath(checkpoint.key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(checkpoint), 'utf8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  /**
+   * 収集完了後にチェックポイントを削除
+   */
+  async clear(key: string): Promise<void> {
+    await fs.rm(this.getFilePath(key), { force: true });
+  }
+
+  // キーには「:」「|」や検索クエリが含まれるため、ファイル名はハッシュで生成
+  private getFilePath(key: string): string {
+    const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 16);
+    return path.join(this.baseDir, `${hash}.json`);
+  }
+}
@@ -0,0 +1,85 @@
+// src/services/cursor-store.ts
+// 収集対象ごとのカーソル（最新ツイートID）をディスクに永続化するサービス
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Tweet, CollectionCursor } from '../types/interfaces.js';
+import { getDataPath } from '../utils/paths.js';
+
+export class CursorStore {
+  // 複数タブからの更新を直列化（読み込み→更新→書き込みの間に他の更新が割り込まないようにする）
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string = getDataPath('cursors.json')) {}
+
+  /**
+   * 対象キーのカーソルを取得
+   */
+  async get(key: string): Promise<CollectionCursor | null> {
+    const cursors = await this.load();
+    return cursors[key] || null;
+  }
+
+  /**
+   * 収集したツイートでカーソルを更新（既存より新しい場合のみ前進）
+   */
+  async update(key: string, tweets: Tweet[]): Promise<CollectionCursor | null> {
+    const result = this.pending.then(() => this.applyUpdate(key, tweets));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async applyUpdate(key: string, tweets: Tweet[]): Promise<CollectionCursor | null> {
+    const cursors = await this.load();
+    const previous = cursors[key] || null;
+
+    const newest = tweets.reduce<Tweet | null>((latest, tweet) =>
+      !latest || compareTweetIds(tweet.id, latest.id) > 0 ? tweet : latest, null);
+
+    if (!newest) return previous;
+
+    const advanced = !previous || compareTweetIds(newest.id, previous.newestId) > 0;
+    const cursor: CollectionCursor = {
+      key,
+      newestId: advanced ? newest.id : previous!.newestId,
+      newestTimestamp: advanced ? newest.timestamp : previous!.newestTimestamp,
+      updatedAt: new Date().toISOString(),
+      lastRunCount: tweets.length
+    };
+
+    cursors[key] = cursor;
+    await this.save(cursors);
+    return cursor;
+  }
+
+  /**
+   * 保存ファイルの読み込み（存在しない場合は空）
+   */
+  private async load(): Promise<Record<string, CollectionCursor>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as Record<string, CollectionCursor>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw new Error(`カーソルファイルの読み込みに失敗しました: ${error}`);
+    }
+  }
+
+  /**
+   * 一時ファイルに書き込んでから置き換え（書き込み途中で中断しても壊れたJSONを残さない）
+   */
+  private async save(cursors: Record<string, CollectionCursor>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(`${this.filePath}.tmp`, JSON.stringify(cursors, null, 2), 'utf8');
+    await fs.rename(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+/**
+ * ツイートID（数値文字列）の大小比較
+ */
+export function compareTweetIds(a: string, b: string): number {
+  if (!/^\d+$/.test(a) || !/^\d+$/.test(b)) return a.localeCompare(b);
+  const diff = BigInt(a) - BigInt(b);
+  return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+}
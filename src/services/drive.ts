@@ -3,22 +3,25 @@
 
 import { GoogleAuth } from 'google-auth-library';
 import { drive_v3, google } from 'googleapis';
-import { MCPResponse } from '../types/interfaces.js';
-
-export interface DriveFileInfo {
-  id: string;
-  name: string;
-  mimeType: string;
-  parents?: string[];
-  webViewLink?: string;
-  createdTime?: string;
-  modifiedTime?: string;
-}
-
-export interface SharedDriveInfo {
-  id: string;
-  name: string;
-  createdTime?: string;
+import { MCPResponse, DriveFileInfo, SharedDriveInfo } from '../types/interfaces.js';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const SPREADSHEET_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+
+/**
+ * Drive APIのファイル情報を返却用の型に変換（未取得の項目は null から undefined にする）
+ */
+export function toDriveFileInfo(file: drive_v3.Schema$File, mimeType?: string): DriveFileInfo {
+  return {
+    id: file.id!,
+    name: file.name!,
+    mimeType: file.mimeType ?? mimeType ?? 'application/octet-stream',
+    parents: file.parents ?? undefined,
+    webViewLink: file.webViewLink ?? undefined,
+    createdTime: file.createdTime ?? undefined,
+    modifiedTime: file.modifiedTime ?? undefined,
+    size: file.size ?? undefined
+  };
 }
 
 export class DriveService {
@@ -81,7 +84,8 @@ export class DriveService {
             type: "text",
             text: `📁 アクセス可能な共有ドライブが見つかりませんでした\n\n` +
                   `💡 共有ドライブへのアクセス権限を確認してください`
-          }]
+          }],
+          drives: []
         };
       }
 
@@ -99,7 +103,12 @@ export class DriveService {
           text: `📁 アクセス可能な共有ドライブ一覧 (${drives.length}件)\n\n` +
                 drivesList +
                 `\n\n💡 ドライブIDをコピーして他の操作で使用できます`
-        }]
+        }],
+        drives: drives.map((drive): SharedDriveInfo => ({
+          id: drive.id!,
+          name: drive.name!,
+          createdTime: drive.createdTime ?? undefined
+        }))
       };
     } catch (error) {
       throw new Error(`共有ドライブ一覧取得に失敗しました: ${error}`);
@@ -142,7 +151,8 @@ export class DriveService {
                   `🆔 共有ドライブID: ${driveId}\n` +
                   `📂 親フォルダID: ${parentFolderId || 'ルート'}\n\n` +
                   `💡 create_folder_in_shared_drive でフォルダを作成できます`
-          }]
+          }],
+          files: []
         };
       }
 
@@ -163,7 +173,8 @@ export class DriveService {
                 `📂 親フォルダ: ${parentFolderId || 'ルート'}\n\n` +
                 foldersList +
                 `\n\n💡 フォルダIDをコピーして他の操作で使用できます`
-        }]
+        }],
+        files: folders.map(folder => toDriveFileInfo(folder, FOLDER_MIME_TYPE))
       };
     } catch (error) {
       throw new Error(`フォルダ一覧取得に失敗しました: ${error}`);
@@ -208,7 +219,8 @@ export class DriveService {
                 `🔗 URL: ${folder.webViewLink}\n` +
                 `📅 作成日時: ${folder.createdTime ? new Date(folder.createdTime).toLocaleString('ja-JP') : '不明'}\n\n` +
                 `✅ フォルダ作成完了！`
-        }]
+        }],
+        file: toDriveFileInfo(folder, FOLDER_MIME_TYPE)
       };
     } catch (error) {
       throw new Error(`フォルダ作成に失敗しました: ${error}`);
@@ -273,7 +285,8 @@ export class DriveService {
                 `📅 作成日時: ${fileInfo.data.createdTime ? new Date(fileInfo.data.createdTime).toLocaleString('ja-JP') : '不明'}\n\n` +
                 `✅ スプレッドシート作成完了！\n` +
                 `💡 このIDを使ってX Collector でツイートを出力できます`
-        }]
+        }],
+        file: toDriveFileInfo(fileInfo.data, SPREADSHEET_MIME_TYPE)
       };
     } catch (error) {
       throw new Error(`スプレッドシート作成に失敗しました: ${error}`);
@@ -326,7 +339,8 @@ export class DriveService {
                 `🔗 URL: ${file.webViewLink}\n` +
                 `📅 作成日時: ${file.createdTime ? new Date(file.createdTime).toLocaleString('ja-JP') : '不明'}\n\n` +
                 `✅ ファイルアップロード完了！`
-        }]
+        }],
+        file: toDriveFileInfo(file, mimeType)
       };
     } catch (error) {
       throw new Error(`ファイルアップロードに失敗しました: ${error}`);
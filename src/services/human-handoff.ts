@@ -0,0 +1,165 @@
+// src/services/human-handoff.ts
+// 人間への操作の引き継ぎ（stdio のMCP通信と干渉しないよう、ローカルHTTPの操作ページとシグナルファイルで再開・中止を受け付ける）
+
+import http from 'http';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HandoffOutcome, HandoffResult } from '../types/interfaces.js';
+import { getDataPath } from '../utils/paths.js';
+
+// シグナルファイルの確認間隔
+const SIGNAL_POLL_INTERVAL_MS = 1000;
+
+export interface HandoffSession {
+  controlUrl: string;   // 再開・中止ボタンのある操作ページ
+  signalFile: string;   // "resume" または "abort" を書き込むと応答できるファイル
+  result: Promise<HandoffResult>;
+}
+
+interface ActiveHandoff {
+  server: http.Server;
+  finish: (outcome: HandoffOutcome, channel: HandoffResult['channel']) => void;
+}
+
+export class HumanHandoffService {
+  private active: ActiveHandoff | null = null;
+
+  constructor(
+    private signalFile: string = getDataPath('handoff', 'signal'),
+    private port: number = Number(process.env.X_COLLECTOR_HANDOFF_PORT) || 0
+  ) {}
+
+  /**
+   * 操作ページ（127.0.0.1のみ）を起動し、シグナルファイルの監視を開始
+   */
+  async start(message: string, timeoutSeconds: number): Promise<HandoffSession> {
+    if (this.active) {
+      throw new Error('既に人間の操作を待機中です。操作ページまたはシグナルファイルで応答してください。');
+    }
+
+    // 推測できないパスにして、他のローカルのページから再開・中止されないようにする
+    const token = crypto.randomBytes(16).toString('hex');
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutSeconds * 1000;
+
+    await fs.mkdir(path.dirname(this.signalFile), { recursive: true });
+    await fs.rm(this.signalFile, { force: true });
+
+    let resolveResult!: (result: HandoffResult) => void;
+    const result = new Promise<HandoffResult>(resolve => {
+      resolveResult = resolve;
+    });
+
+    let settled = false;
+    const finish = (outcome: HandoffOutcome, channel: HandoffResult['channel']) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearInterval(poller);
+      server.close();
+      this.active = null;
+      fs.rm(this.signalFile, { force: true }).catch(() => undefined);
+      resolveResult({ outcome, channel, waitedSeconds: Math.round((Date.now() - startedAt) / 1000) });
+    };
+
+    const server = http.createServer((request, response) => {
+      const [, requestToken, action] = (request.url || '').split('?')[0].split('/');
+      if (requestToken !== token) {
+        response.writeHead(404).end();
+        return;
+      }
+
+      if (request.method === 'POST' && (action === 'resume' || action === 'abort')) {
+        const outcome = action === 'resume' ? 'resumed' : 'aborted';
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(this.renderDonePage(outcome, settled));
+        finish(outcome, 'control_page');
+        return;
+      }
+
+      if (request.method === 'GET' && !action) {
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(this.renderControlPage(message, token, deadline));
+        return;
+      }
+
+      response.writeHead(404).end();
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+
+    const timer = setTimeout(() => finish('timed_out', 'timeout'), timeoutSeconds * 1000);
+    const poller = setInterval(async () => {
+      // 書き込み途中（空のファイル）や想定外の内容は無視し、"resume" / "abort" のみ受け付ける
+      const content = (await fs.readFile(this.signalFile, 'utf8').catch(() => '')).trim().toLowerCase();
+      if (content === 'resume') finish('resumed', 'signal_file');
+      else if (content === 'abort') finish('aborted', 'signal_file');
+    }, SIGNAL_POLL_INTERVAL_MS);
+
+    this.active = { server, finish };
+
+    const { port } = server.address() as { port: number };
+    return {
+      controlUrl: `http://127.0.0.1:${port}/${token}`,
+      signalFile: this.signalFile,
+      result
+    };
+  }
+
+  /**
+   * 待機中の引き継ぎを中止として終了（サーバー終了時）
+   */
+  close(): void {
+    this.active?.finish('aborted', 'shutdown');
+  }
+
+  private renderControlPage(message: string, token: string, deadline: number): string {
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>X Collector - 手動操作の待機中</title>
+<style>
+  body { font-family: sans-serif; max-width: 36rem; margin: 3rem auto; padding: 0 1rem; }
+  button { font-size: 1.1rem; padding: 0.6rem 1.6rem; margin-right: 0.8rem; cursor: pointer; }
+  .message { white-space: pre-wrap; background: #f5f8fa; padding: 1rem; border-radius: 8px; }
+</style>
+</head>
+<body>
+<h1>🔔 手動操作の待機中</h1>
+<p class="message">${escapeHtml(message)}</p>
+<p>⏰ 残り <span id="remaining"></span> 秒（時間切れになると timed_out として自動操作に戻ります）</p>
+<form method="post" style="display: inline" action="/${token}/resume"><button type="submit">▶️ 再開</button></form>
+<form method="post" style="display: inline" action="/${token}/abort"><button type="submit">🛑 中止</button></form>
+<script>
+  const deadline = ${deadline};
+  const update = () => {
+    document.getElementById('remaining').textContent = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+  };
+  update();
+  setInterval(update, 1000);
+</script>
+</body>
+</html>`;
+  }
+
+  private renderDonePage(outcome: HandoffOutcome, alreadySettled: boolean): string {
+    const text = alreadySettled
+      ? 'この待機は既に終了しています。'
+      : outcome === 'resumed' ? '▶️ 自動操作を再開します。' : '🛑 自動操作を中止しました。';
+    return `<!DOCTYPE html><html lang="ja"><head><meta charset="utf-8"><title>X Collector</title></head>` +
+      `<body style="font-family: sans-serif; margin: 3rem auto; max-width: 36rem"><h1>${text}</h1><p>このタブは閉じて構いません。</p></body></html>`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
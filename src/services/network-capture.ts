@@ -0,0 +1,66 @@
+// src/services/network-capture.ts
+// ページのGraphQLレスポンスを監視し、ツイート・ユーザー情報を蓄積するサービス
+
+import { Page, HTTPResponse } from 'puppeteer';
+import { Tweet, UserProfile } from '../types/interfaces.js';
+import { getGraphQLOperationName, parseGraphQLResponse } from '../utils/graphql-parser.js';
+
+export class NetworkCaptureService {
+  // 受信順を保持するためMapで管理
+  private tweets = new Map<string, Tweet>();
+  private users = new Map<string, UserProfile>();
+  private responseCount = 0;
+
+  constructor(private page: Page) {
+    this.page.on('response', this.handleResponse);
+
+    // 別ページへの遷移時はバッファをリセット
+    this.page.on('framenavigated', frame => {
+      if (frame === this.page.mainFrame()) this.reset();
+    });
+  }
+
+  /**
+   * 蓄積したツイートを受信順に取得
+   */
+  getTweets(): Tweet[] {
+    return [...this.tweets.values()];
+  }
+
+  getTweet(id: string): Tweet | undefined {
+    return this.tweets.get(id);
+  }
+
+  getUser(username: string): UserProfile | undefined {
+    return this.users.get(username.toLowerCase());
+  }
+
+  /**
+   * 解析できたGraphQLレスポンス数
+   */
+  getResponseCount(): number {
+    return this.responseCount;
+  }
+
+  reset(): void {
+    this.tweets.clear();
+    this.users.clear();
+    this.responseCount = 0;
+  }
+
+  private handleResponse = async (response: HTTPResponse): Promise<void> => {
+    const operation = getGraphQLOperationName(response.url());
+    if (!operation || !response.ok()) return;
+
+    try {
+      const parsed = parseGraphQLResponse(await response.json());
+      parsed.tweets.forEach(tweet => this.tweets.set(tweet.id, tweet));
+      parsed.users.forEach(user => this.users.set(user.username.toLowerCase(), user));
+      this.responseCount++;
+      console.log(`🛰️ ${operation}: ${parsed.tweets.length}件のツイート・${parsed.users.length}人のユーザーを取得`);
+    } catch (error) {
+      // レスポンス本文が取得できない（リダイレクト・破棄済み）場合は無視
+      console.error(`⚠️ ${operation} レスポンスの解析に失敗しました: ${error}`);
+    }
+  };
+}
@@ -0,0 +1,65 @@
+// src/services/page-state.ts
+// 移動後のページが収集できる状態か（存在しない・凍結・非公開・ログイン要求・レート制限・年齢制限）を判定する
+
+import { Page } from 'puppeteer';
+import { PageState } from '../types/interfaces.js';
+import { PAGE_STATE_SELECTORS } from '../utils/selectors.js';
+import { detectBlockedScreen } from './request-budget.js';
+
+export const PAGE_STATE_LABELS: Record<PageState, string> = {
+  ok: '表示できています',
+  not_found: 'アカウントまたはページが存在しません',
+  suspended: 'アカウントが凍結されています',
+  protected: 'ポストが非公開です',
+  login_required: 'ログインが必要です',
+  rate_limited: 'Xのレート制限・エラー画面が表示されています',
+  age_restricted: '年齢制限のあるコンテンツです'
+};
+
+/**
+ * ページの状態が ok 以外のため処理を続けられない場合のエラー（MCPToolHandlers で通常の結果に変換される）
+ */
+export class PageStateError extends Error {
+  constructor(public readonly state: PageState, public readonly url: string) {
+    super(`${formatPageState(state)}\n🔗 ${url}`);
+    this.name = 'PageStateError';
+  }
+}
+
+/**
+ * 表示中のページの状態を判定（ツイート本文の誤検出を避けるため article 外の表示のみを見る）
+ */
+export async function detectPageState(page: Page): Promise<PageState> {
+  // 「Something went wrong」画面もタイムラインではレート制限時に表示されるため rate_limited として扱う
+  if (await detectBlockedScreen(page).catch(() => null)) {
+    return 'rate_limited';
+  }
+
+  return page.evaluate((selectors: typeof PAGE_STATE_SELECTORS) => {
+    if ((selectors.loginPaths as readonly string[]).some(path => location.pathname.startsWith(path))) {
+      return 'login_required' as const;
+    }
+
+    const root = document.querySelector(selectors.root);
+    const messages = Array.from((root || document.body).querySelectorAll(selectors.message))
+      .filter(el => !el.closest('article'))
+      .map(el => el.textContent?.trim() || '');
+    const matches = (texts: readonly string[]) => messages.some(message => texts.some(text => message.includes(text)));
+
+    if (matches(selectors.suspendedTexts)) return 'suspended' as const;
+    if (matches(selectors.notFoundTexts)) return 'not_found' as const;
+    if (matches(selectors.ageRestrictedTexts)) return 'age_restricted' as const;
+    if (matches(selectors.protectedTexts)) return 'protected' as const;
+
+    // メインカラムがなくログインボタンだけが表示されている場合はログインウォール
+    if (!root && document.querySelector(selectors.loginWall)) return 'login_required' as const;
+    return 'ok' as const;
+  }, PAGE_STATE_SELECTORS);
+}
+
+/**
+ * エージェントが分岐に使えるよう、状態コードと説明を1行で表示
+ */
+export function formatPageState(state: PageState): string {
+  return `${state === 'ok' ? '🟢' : '🔴'} ページ状態: ${state}（${PAGE_STATE_LABELS[state]}）`;
+}
@@ -0,0 +1,198 @@
+// src/services/request-budget.ts
+// ページ読み込み・スクロールの回数を制限し、Xのレート制限・エラー画面を検出したらクールダウンするサービス
+
+import { Page } from 'puppeteer';
+import { BlockedScreen, RequestBudgetLimits, RequestBudgetStatus } from '../types/interfaces.js';
+import { BLOCKED_SCREEN_SELECTORS } from '../utils/selectors.js';
+
+export type RequestKind = 'navigation' | 'scroll';
+
+export const DEFAULT_BUDGET_LIMITS: RequestBudgetLimits = {
+  perMinute: 30,
+  perHour: 600,
+  perDay: 5000
+};
+
+const WINDOW_MS: Record<keyof RequestBudgetLimits, number> = {
+  perMinute: 60 * 1000,
+  perHour: 60 * 60 * 1000,
+  perDay: 24 * 60 * 60 * 1000
+};
+
+// 検出した画面ごとのクールダウン（連続して検出するたびに倍増）
+const COOLDOWN_BASE_MS: Record<BlockedScreen, number> = {
+  rate_limited: 5 * 60 * 1000,
+  error: 30 * 1000
+};
+const COOLDOWN_MAX_MS = 60 * 60 * 1000;
+
+// 上限到達・クールダウン中にその場で待機する最大時間（超える場合はエラーにして呼び出し元に返す）
+const DEFAULT_MAX_WAIT_MS = 90 * 1000;
+
+const BLOCKED_SCREEN_LABELS: Record<BlockedScreen, string> = {
+  rate_limited: 'レート制限',
+  error: '読み込みエラー'
+};
+
+/**
+ * 予算の上限到達・クールダウン中で、待機できる時間を超える場合のエラー
+ */
+export class RequestBudgetError extends Error {
+  constructor(message: string, public readonly retryAt: string) {
+    super(message);
+    this.name = 'RequestBudgetError';
+  }
+}
+
+export class RequestBudget {
+  private limits: RequestBudgetLimits = { ...DEFAULT_BUDGET_LIMITS };
+  private requests: number[] = [];  // 直近24時間のリクエスト時刻（昇順）
+  private cooldownUntil = 0;
+  private cooldownReason: BlockedScreen | null = null;
+  private blockedCount = 0;
+
+  constructor(private maxWaitMs: number = DEFAULT_MAX_WAIT_MS) {}
+
+  /**
+   * 上限を変更（指定しなかった項目は現在の値を維持）
+   */
+  setLimits(limits: Partial<RequestBudgetLimits>): RequestBudgetLimits {
+    for (const [key, value] of Object.entries(limits)) {
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`リクエスト予算の上限は1以上の整数で指定してください: ${key}=${value}`);
+      }
+      this.limits[key as keyof RequestBudgetLimits] = value;
+    }
+    return { ...this.limits };
+  }
+
+  /**
+   * ページ読み込み・スクロールの前に呼び出す。上限到達・クールダウン中は空くまで待機する
+   */
+  async acquire(kind: RequestKind): Promise<void> {
+    const waitMs = this.getWaitMs(Date.now());
+    if (waitMs > 0) {
+      const retryAt = new Date(Date.now() + waitMs).toISOString();
+      const reason = this.isCoolingDown()
+        ? `${BLOCKED_SCREEN_LABELS[this.cooldownReason!]}によるクールダウン中`
+        : 'リクエスト予算の上限に到達';
+      if (waitMs > this.maxWaitMs) {
+        throw new RequestBudgetError(`${reason}のため中断しました（${retryAt} 以降に再開できます）`, retryAt);
+      }
+      console.error(`⏳ ${reason}のため${Math.ceil(waitMs / 1000)}秒待機します（${kind}）`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+
+    this.requests.push(Date.now());
+  }
+
+  /**
+   * 表示中のページがXのレート制限・エラー画面かを確認し、検出した場合はクールダウンを開始
+   */
+  async checkPage(page: Page): Promise<BlockedScreen | null> {
+    const screen = await detectBlockedScreen(page).catch(() => null);
+    if (screen) {
+      this.reportBlocked(screen);
+    } else if (!this.isCoolingDown()) {
+      this.blockedCount = 0;
+    }
+    return screen;
+  }
+
+  /**
+   * 制限・エラーを検出したらクールダウンを開始（retryAt はXが示す解除時刻）
+   * クールダウン中に同じ制限を重ねて検出した場合は延長しない
+   */
+  reportBlocked(screen: BlockedScreen, retryAt?: number): void {
+    const now = Date.now();
+    if (this.isCoolingDown() && this.cooldownReason === screen && (!retryAt || retryAt <= this.cooldownUntil)) {
+      return;
+    }
+
+    this.blockedCount++;
+    const backoffMs = Math.min(COOLDOWN_BASE_MS[screen] * 2 ** (this.blockedCount - 1), COOLDOWN_MAX_MS);
+    this.cooldownUntil = Math.max(this.cooldownUntil, now + backoffMs, retryAt ?? 0);
+    this.cooldownReason = screen;
+    console.error(
+      `🧊 ${BLOCKED_SCREEN_LABELS[screen]}を検出しました。${new Date(this.cooldownUntil).toISOString()} までクールダウンします（${this.blockedCount}回目）`
+    );
+  }
+
+  isCoolingDown(): boolean {
+    return this.cooldownUntil > Date.now();
+  }
+
+  getStatus(): RequestBudgetStatus {
+    const now = Date.now();
+    this.prune(now);
+
+    const remaining = { ...this.limits };
+    for (const key of Object.keys(WINDOW_MS) as Array<keyof RequestBudgetLimits>) {
+      remaining[key] = Math.max(0, this.limits[key] - this.countSince(now - WINDOW_MS[key]));
+    }
+
+    const coolingDown = this.isCoolingDown();
+    return {
+      limits: { ...this.limits },
+      remaining,
+      cooldownUntil: coolingDown ? new Date(this.cooldownUntil).toISOString() : undefined,
+      cooldownReason: coolingDown ? this.cooldownReason ?? undefined : undefined,
+      blockedCount: this.blockedCount
+    };
+  }
+
+  /**
+   * 次のリクエストまでに必要な待機時間（各期間の最も古いリクエストが期間外になるまで）
+   */
+  private getWaitMs(now: number): number {
+    this.prune(now);
+
+    let waitMs = Math.max(0, this.cooldownUntil - now);
+    for (const key of Object.keys(WINDOW_MS) as Array<keyof RequestBudgetLimits>) {
+      const inWindow = this.requests.filter(time => time > now - WINDOW_MS[key]);
+      if (inWindow.length >= this.limits[key]) {
+        waitMs = Math.max(waitMs, inWindow[inWindow.length - this.limits[key]] + WINDOW_MS[key] - now);
+      }
+    }
+    return waitMs;
+  }
+
+  private countSince(since: number): number {
+    return this.requests.filter(time => time > since).length;
+  }
+
+  private prune(now: number): void {
+    const since = now - WINDOW_MS.perDay;
+    while (this.requests.length > 0 && this.requests[0] <= since) this.requests.shift();
+  }
+}
+
+/**
+ * Xの「Rate limit exceeded」「Something went wrong. Try reloading.」画面を検出
+ */
+export async function detectBlockedScreen(page: Page): Promise<BlockedScreen | null> {
+  return page.evaluate((selectors: typeof BLOCKED_SCREEN_SELECTORS) => {
+    const root = document.querySelector(selectors.root) || document.body;
+    const messages = Array.from(root.querySelectorAll(selectors.message))
+      .filter(el => !el.closest('article'))
+      .map(el => el.textContent?.trim() || '');
+
+    const matches = (texts: readonly string[]) => messages.some(message => texts.some(text => message.includes(text)));
+    if (matches(selectors.rateLimitTexts)) return 'rate_limited' as const;
+    if (matches(selectors.errorTexts)) return 'error' as const;
+    return null;
+  }, BLOCKED_SCREEN_SELECTORS);
+}
+
+/**
+ * 予算の残りとクールダウン状態の1行表示
+ */
+export function formatBudgetStatus(status: RequestBudgetStatus): string {
+  const { limits, remaining } = status;
+  return `⏱️ リクエスト予算 残り: 分 ${remaining.perMinute}/${limits.perMinute}・` +
+    `時 ${remaining.perHour}/${limits.perHour}・日 ${remaining.perDay}/${limits.perDay}` +
+    (status.cooldownUntil && status.cooldownReason
+      ? `\n🧊 ${BLOCKED_SCREEN_LABELS[status.cooldownReason]}のためクールダウン中（${status.cooldownUntil} まで）`
+      : '');
+}
@@ -0,0 +1,177 @@
+// src/services/session-store.ts
+// ログインセッション（Cookie・localStorage）を暗号化してローカルファイルに保存・復元するサービス
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Page, CookieParam } from 'puppeteer';
+import { SessionTransferResult } from '../types/interfaces.js';
+import { getDataPath } from '../utils/paths.js';
+
+// セッションを保存・復元する対象のオリジン
+const SESSION_ORIGINS = ['https://x.com', 'https://twitter.com'];
+
+interface SessionSnapshot {
+  version: 1;
+  exportedAt: string;
+  origin: string;
+  cookies: CookieParam[];
+  localStorage: Record<string, string>;
+}
+
+interface EncryptedSessionFile {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class SessionStore {
+  constructor(private baseDir: string = getDataPath('sessions')) {}
+
+  /**
+   * セッション名から保存先を決定（常に ~/.x-collector/sessions/<name>.session）
+   * ツール引数から任意のパスを読み書きできないよう、プロファイル名と同じく英数字・ハイフン・アンダースコアのみ受け付ける
+   */
+  resolvePath(name: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(`セッション名には英数字・ハイフン・アンダースコアのみ使用できます: ${name}`);
+    }
+    return path.join(this.baseDir, `${name}.session`);
+  }
+
+  /**
+   * 現在のブラウザのX用Cookie・localStorageを暗号化して保存
+   */
+  async exportSession(page: Page, name: string, passphrase: string): Promise<SessionTransferResult> {
+    // localStorage はオリジン単位のため、Xのページ上で取得する
+    if (!SESSION_ORIGINS.includes(this.getOrigin(page.url()))) {
+      await page.goto(`${SESSION_ORIGINS[0]}/`, { waitUntil: 'networkidle2', timeout: 30000 });
+    }
+
+    const cookies = await page.cookies(...SESSION_ORIGINS);
+    const localStorage = await page.evaluate(() => Object.fromEntries(Object.entries(window.localStorage)));
+
+    const snapshot: SessionSnapshot = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      origin: this.getOrigin(page.url()),
+      cookies: cookies.map(cookie => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        expires: cookie.expires,
+        httpOnly: cookie.httpOnly,
+        secure: cookie.secure,
+        sameSite: cookie.sameSite
+      })),
+      localStorage
+    };
+
+    const filePath = this.resolvePath(name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(this.encrypt(snapshot, passphrase), null, 2), { encoding: 'utf8', mode: 0o600 });
+
+    return {
+      filePath,
+      cookieCount: snapshot.cookies.length,
+      localStorageCount: Object.keys(localStorage).length,
+      exportedAt: snapshot.exportedAt
+    };
+  }
+
+  /**
+   * 保存したセッションを復号してブラウザに復元（復元後にページを再読み込み）
+   */
+  async importSession(page: Page, name: string, passphrase: string): Promise<SessionTransferResult> {
+    const filePath = this.resolvePath(name);
+
+    let file: EncryptedSessionFile;
+    try {
+      file = JSON.parse(await fs.readFile(filePath, 'utf8')) as EncryptedSessionFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new Error(`セッションファイルが見つかりません: ${filePath}`);
+      throw new Error(`セッションファイルの読み込みに失敗しました: ${error}`);
+    }
+
+    const snapshot = this.decrypt(file, passphrase);
+
+    // localStorage を書き込むため、保存時と同じオリジンを開いてから復元
+    await page.goto(`${snapshot.origin}/`, { waitUntil: 'networkidle2', timeout: 30000 });
+    if (snapshot.cookies.length > 0) {
+      await page.setCookie(...snapshot.cookies);
+    }
+    await page.evaluate((entries: Record<string, string>) => {
+      Object.entries(entries).forEach(([key, value]) => window.localStorage.setItem(key, value));
+    }, snapshot.localStorage);
+    await page.reload({ waitUntil: 'networkidle2', timeout: 30000 });
+
+    return {
+      filePath,
+      cookieCount: snapshot.cookies.length,
+      localStorageCount: Object.keys(snapshot.localStorage).length,
+      exportedAt: snapshot.exportedAt
+    };
+  }
+
+  private encrypt(snapshot: SessionSnapshot, passphrase: string): EncryptedSessionFile {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(passphrase, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(snapshot), 'utf8'), cipher.final()]);
+
+    return {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  private decrypt(file: EncryptedSessionFile, passphrase: string): SessionSnapshot {
+    if (file.version !== 1 || file.algorithm !== 'aes-256-gcm') {
+      throw new Error('対応していないセッションファイル形式です。');
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        this.deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+        Buffer.from(file.iv, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+      return JSON.parse(json) as SessionSnapshot;
+    } catch {
+      throw new Error('セッションファイルを復号できません。パスフレーズを確認してください。');
+    }
+  }
+
+  private deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, 32);
+  }
+
+  private getOrigin(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return '';
+    }
+  }
+}
+
+/**
+ * セッションファイルのパスフレーズ（引数、未指定時は X_COLLECTOR_SESSION_KEY）
+ */
+export function getSessionPassphrase(passphrase?: string): string {
+  const resolved = passphrase || process.env.X_COLLECTOR_SESSION_KEY;
+  if (!resolved) {
+    throw new Error('パスフレーズが指定されていません。passphrase 引数または環境変数 X_COLLECTOR_SESSION_KEY を設定してください。');
+  }
+  return resolved;
+}
@@ -6,11 +6,13 @@ import { sheets_v4, google } from 'googleapis';
 import { 
   Tweet, 
   UserProfile, 
+  UserListEntry,
   MCPResponse, 
   ExportResult, 
   SheetInfo,
   WorksheetData 
 } from '../types/interfaces.js';
+import { toDriveFileInfo } from './drive.js';
 
 export class SheetsService {
   private auth: GoogleAuth | null = null;
@@ -131,7 +133,13 @@ export class SheetsService {
                 `📋 ワークシート: Tweets, Profiles, ${today}\n` +
                 `${shareWithEmail ? `📧 共有設定: ${shareWithEmail}\n` : ''}` +
                 `\n💡 このIDを使ってツイートやプロフィールをエクスポートできます`
-        }]
+        }],
+        spreadsheet: {
+          spreadsheetId,
+          title: actualTitle,
+          url: spreadsheetUrl,
+          worksheets: ['Tweets', 'Profiles', today]
+        }
       };
     } catch (error) {
       throw new Error(`マスタースプレッドシート作成に失敗しました: ${error}`);
@@ -144,7 +152,8 @@ export class SheetsService {
   async exportTweetsToSheets(
     spreadsheetId: string, 
     tweets: Tweet[], 
-    worksheetName?: string
+    worksheetName?: string,
+    includeRichContent: boolean = false
   ): Promise<MCPResponse> {
     try {
       if (!this.sheets) {
@@ -159,8 +168,18 @@ export class SheetsService {
       const today = new Date().toISOString().split('T')[0];
       const targetWorksheet = worksheetName || today;
 
+      // 初回データ用ヘッダー（既存シートとの互換のため新しい列は末尾に追加）
+      const headers = [
+        'タイムスタンプ', 'ユーザー名', 'ツイート内容', 'いいね数', 'リツイート数', '返信数',
+        'リポスト?', 'リポストしたユーザー', 'URL', '収集日時',
+        'メディア', 'リンク', 'ハッシュタグ', 'メンション', '引用ツイート', 'タイムライン',
+        '固定?', '引用?',
+        // オプション列（アンケート・リンクカード・コミュニティノート）
+        ...(includeRichContent ? ['アンケート', 'リンクカード', 'コミュニティノート'] : [])
+      ];
+
       // ワークシートの存在確認・作成
-      await this.ensureWorksheetExists(spreadsheetId, targetWorksheet);
+      await this.ensureWorksheetExists(spreadsheetId, targetWorksheet, headers.length);
 
       // 🔧 修正: 既存データの正確な行数を取得
       const existingData = await this.sheets!.spreadsheets.values.get({
@@ -170,6 +189,9 @@ export class SheetsService {
 
       const existingRowCount = existingData.data.values?.length || 0;
       const isFirstData = existingRowCount === 0;
+      if (!isFirstData) {
+        await this.ensureHeaderRow(spreadsheetId, targetWorksheet, headers);
+      }
       
       // データ変換
       const dataRows = tweets.map((tweet: Tweet) => [
@@ -180,9 +202,27 @@ export class SheetsService {
         tweet.retweets,
         tweet.replies,
         tweet.isRetweet ? 'はい' : 'いいえ',
-        tweet.originalAuthor || '',
-        `https://x.com/${tweet.author}`,
-        new Date().toISOString()
+        tweet.repostedBy || '',
+        tweet.permalink || `https://x.com/${tweet.author}/status/${tweet.id}`,
+        new Date().toISOString(),
+        (tweet.media || []).map(m => `${m.type}: ${m.url}`).join('\n'),
+        (tweet.urls || []).map(u => u.expandedUrl).join('\n'),
+        (tweet.hashtags || []).map(h => `#${h}`).join(' '),
+        (tweet.mentions || []).map(m => `@${m}`).join(' '),
+        tweet.quotedTweet
+          ? (tweet.quotedTweet.permalink || `@${tweet.quotedTweet.author}: ${tweet.quotedTweet.text}`)
+          : '',
+        tweet.timeline || '',
+        tweet.isPinned ? 'はい' : 'いいえ',
+        tweet.isQuote ? 'はい' : 'いいえ',
+        ...(includeRichContent ? [
+          tweet.poll
+            ? tweet.poll.options.map(o => `${o.label}: ${o.percentage ?? '-'}%${o.votes !== undefined ? ` (${o.votes}票)` : ''}`).join('\n') +
+              `\n計${tweet.poll.totalVotes ?? '-'}票 ${tweet.poll.isClosed ? '終了' : '投票中'}`
+            : '',
+          tweet.card ? [tweet.card.title, tweet.card.domain, tweet.card.url].filter(Boolean).join('\n') : '',
+          tweet.communityNote ? tweet.communityNote.text : ''
+        ] : [])
       ]);
 
       let startRow: number;
@@ -190,7 +230,6 @@ export class SheetsService {
 
       if (isFirstData) {
         // 初回データ：ヘッダー行を含める
-        const headers = ['タイムスタンプ', 'ユーザー名', 'ツイート内容', 'いいね数', 'リツイート数', '返信数', 'リツイート?', '元ユーザー', 'URL', '収集日時'];
         values = [headers, ...dataRows];
         startRow = 1;
       } else {
@@ -200,7 +239,7 @@ export class SheetsService {
       }
 
       // 🔧 修正: 正確な範囲指定で書き込み
-      const range = `${targetWorksheet}!A${startRow}:J${startRow + values.length - 1}`;
+      const range = `${targetWorksheet}!A${startRow}:${this.columnLetter(headers.length)}${startRow + values.length - 1}`;
       
       await this.sheets!.spreadsheets.values.update({
         spreadsheetId,
@@ -226,9 +265,11 @@ export class SheetsService {
                 `✅ データ形式:\n` +
                 `- タイムスタンプ、ユーザー名、ツイート内容\n` +
                 `- エンゲージメント数（いいね、RT、返信）\n` +
-                `- メタデータ（リツイート判定、URL、収集日時）\n\n` +
+                `- メタデータ（リツイート判定、URL、収集日時）\n` +
+                `- エンティティ（メディア、リンク、ハッシュタグ、メンション、引用ツイート）\n\n` +
                 `${isFirstData ? '🆕 新規作成完了' : '➕ データ追記完了'}`
-        }]
+        }],
+        exportResult: this.toExportResult(spreadsheetId, targetWorksheet, startRow, values.length, newDataCount)
       };
     } catch (error) {
       throw new Error(`ツイートのスプレッドシート出力に失敗しました: ${error}`);
@@ -252,8 +293,14 @@ export class SheetsService {
         throw new Error('エクスポートするプロフィールデータがありません。');
       }
 
+      // 初回データ用ヘッダー（既存シートとの互換のため新しい列は末尾に追加）
+      const headers = [
+        'ユーザー名', '表示名', 'フォロワー数', 'フォロー数', '認証済み', '自己紹介', 'ツイート数', '収集日時',
+        '場所', 'ウェブサイト', '登録日', '誕生日', 'カテゴリ', 'アイコンURL', 'バナーURL'
+      ];
+
       // ワークシートの存在確認・作成
-      await this.ensureWorksheetExists(spreadsheetId, worksheetName);
+      await this.ensureWorksheetExists(spreadsheetId, worksheetName, headers.length);
 
       // 🔧 修正: 既存データの正確な行数を取得
       const existingData = await this.sheets!.spreadsheets.values.get({
@@ -263,6 +310,9 @@ export class SheetsService {
 
       const existingRowCount = existingData.data.values?.length || 0;
       const isFirstData = existingRowCount === 0;
+      if (!isFirstData) {
+        await this.ensureHeaderRow(spreadsheetId, worksheetName, headers);
+      }
       
       // プロフィールデータ行
       const profileRow = [
@@ -273,7 +323,14 @@ export class SheetsService {
         profile.verified ? '認証済み' : '未認証',
         profile.bio,
         profile.tweets,
-        new Date().toISOString()
+        new Date().toISOString(),
+        profile.location || '',
+        profile.website || '',
+        profile.joinDate || '',
+        profile.birthday || '',
+        profile.professionalCategory || '',
+        profile.profileImageUrl || '',
+        profile.bannerImageUrl || ''
       ];
 
       let values: any[][];
@@ -281,7 +338,6 @@ export class SheetsService {
 
       if (isFirstData) {
         // 初回データ：ヘッダー行を含める
-        const headers = ['ユーザー名', '表示名', 'フォロワー数', 'フォロー数', '認証済み', '自己紹介', 'ツイート数', '収集日時'];
         values = [headers, profileRow];
         startRow = 1;
       } else {
@@ -291,7 +347,7 @@ export class SheetsService {
       }
 
       // 🔧 修正: 正確な範囲指定で書き込み
-      const range = `${worksheetName}!A${startRow}:H${startRow + values.length - 1}`;
+      const range = `${worksheetName}!A${startRow}:${this.columnLetter(headers.length)}${startRow + values.length - 1}`;
 
       await this.sheets!.spreadsheets.values.update({
         spreadsheetId,
@@ -313,14 +369,100 @@ export class SheetsService {
                 `✅ 出力項目:\n` +
                 `- 基本情報（ユーザー名、表示名、認証状態）\n` +
                 `- フォロー関係（フォロワー数、フォロー数）\n` +
-                `- プロフィール（自己紹介、ツイート数、収集日時）`
-        }]
+                `- プロフィール（自己紹介、ツイート数、収集日時）\n` +
+                `- ヘッダー項目（場所、ウェブサイト、登録日、誕生日、カテゴリ、アイコン・バナー画像）`
+        }],
+        exportResult: this.toExportResult(spreadsheetId, worksheetName, startRow, values.length, 1)
       };
     } catch (error) {
       throw new Error(`プロフィールのスプレッドシート出力に失敗しました: ${error}`);
     }
   }
 
+  /**
+   * フォロワー・フォロー中一覧をGoogle Sheetsに出力
+   */
+  async exportUsersToSheets(
+    spreadsheetId: string,
+    users: UserListEntry[],
+    worksheetName?: string
+  ): Promise<MCPResponse> {
+    try {
+      if (!this.sheets) {
+        await this.setupGoogleSheets();
+      }
+
+      if (!users || users.length === 0) {
+        throw new Error('エクスポートするユーザーデータがありません。');
+      }
+
+      // ワークシート名の決定（デフォルトは一覧の種類ごとの専用シート）
+      const defaultWorksheets = {
+        followers: 'Followers',
+        verified_followers: 'Followers',
+        following: 'Following',
+        search_people: 'People'
+      };
+      const targetWorksheet = worksheetName || defaultWorksheets[users[0].listType];
+      const headers = [
+        '取得元ユーザー', '一覧種別', 'ユーザー名', '表示名', '自己紹介', '認証済み', 'フォローされています', 'アイコンURL', '収集日時'
+      ];
+
+      // ワークシートの存在確認・作成
+      await this.ensureWorksheetExists(spreadsheetId, targetWorksheet, headers.length);
+
+      const existingData = await this.sheets!.spreadsheets.values.get({
+        spreadsheetId,
+        range: `${targetWorksheet}!A:A`
+      });
+
+      const existingRowCount = existingData.data.values?.length || 0;
+      const isFirstData = existingRowCount === 0;
+      if (!isFirstData) {
+        await this.ensureHeaderRow(spreadsheetId, targetWorksheet, headers);
+      }
+
+      const collectedAt = new Date().toISOString();
+      const dataRows = users.map((user: UserListEntry) => [
+        user.sourceUser,
+        user.listType,
+        user.username,
+        user.displayName,
+        user.bio,
+        user.verified ? '認証済み' : '未認証',
+        user.followsYou ? 'はい' : 'いいえ',
+        user.profileImageUrl || '',
+        collectedAt
+      ]);
+
+      const values = isFirstData ? [headers, ...dataRows] : dataRows;
+      const startRow = isFirstData ? 1 : existingRowCount + 1;
+      const range = `${targetWorksheet}!A${startRow}:${this.columnLetter(headers.length)}${startRow + values.length - 1}`;
+
+      await this.sheets!.spreadsheets.values.update({
+        spreadsheetId,
+        range: range,
+        valueInputOption: 'USER_ENTERED',
+        requestBody: { values }
+      });
+
+      return {
+        content: [{
+          type: "text",
+          text: `👥 ユーザー一覧をスプレッドシートに${isFirstData ? '出力' : '追記'}しました\n\n` +
+                `📄 スプレッドシートID: ${spreadsheetId}\n` +
+                `📋 ワークシート: ${targetWorksheet}\n` +
+                `📝 ${isFirstData ? '出力' : '追記'}件数: ${users.length}件\n` +
+                `📍 書き込み範囲: ${range}\n` +
+                `🔗 URL: https://docs.google.com/spreadsheets/d/${spreadsheetId}`
+        }],
+        exportResult: this.toExportResult(spreadsheetId, targetWorksheet, startRow, values.length, users.length)
+      };
+    } catch (error) {
+      throw new Error(`ユーザー一覧のスプレッドシート出力に失敗しました: ${error}`);
+    }
+  }
+
   /**
    * アクセス可能なGoogle Sheetsの一覧を表示
    */
@@ -347,7 +489,8 @@ export class SheetsService {
             type: "text",
             text: `📄 アクセス可能なスプレッドシートが見つかりませんでした\n\n` +
                   `💡 create_master_sheet で新しいスプレッドシートを作成できます`
-          }]
+          }],
+          files: []
         };
       }
 
@@ -366,7 +509,8 @@ export class SheetsService {
           text: `📊 アクセス可能なスプレッドシート一覧 (${files.length}件)\n\n` +
                 sheetsList +
                 `\n\n💡 スプレッドシートIDをコピーして export_tweets_to_sheets や export_profile_to_sheets で使用できます`
-        }]
+        }],
+        files: files.map(file => toDriveFileInfo(file, 'application/vnd.google-apps.spreadsheet'))
       };
     } catch (error) {
       throw new Error(`スプレッドシート一覧取得に失敗しました: ${error}`);
@@ -374,9 +518,13 @@ export class SheetsService {
   }
 
   /**
-   * ワークシートの存在確認・作成
+   * ワークシートの存在確認・作成（列数が足りない既存シートは列を追加）
    */
-  private async ensureWorksheetExists(spreadsheetId: string, worksheetName: string): Promise<void> {
+  private async ensureWorksheetExists(
+    spreadsheetId: string,
+    worksheetName: string,
+    columnCount: number = 10
+  ): Promise<void> {
     if (!this.sheets) return;
 
     try {
@@ -385,11 +533,28 @@ export class SheetsService {
       const existingSheets = response.data.sheets || [];
       
       // ワークシートが存在するかチェック
-      const worksheetExists = existingSheets.some(sheet => 
+      const existingSheet = existingSheets.find(sheet => 
         sheet.properties?.title === worksheetName
       );
 
-      if (!worksheetExists) {
+      if (existingSheet) {
+        const currentColumns = existingSheet.properties?.gridProperties?.columnCount || 0;
+        if (currentColumns < columnCount) {
+          await this.sheets.spreadsheets.batchUpdate({
+            spreadsheetId,
+            requestBody: {
+              requests: [{
+                appendDimension: {
+                  sheetId: existingSheet.properties?.sheetId,
+                  dimension: 'COLUMNS',
+                  length: columnCount - currentColumns
+                }
+              }]
+            }
+          });
+          console.log(`📋 ワークシート「${worksheetName}」に${columnCount - currentColumns}列を追加しました`);
+        }
+      } else {
         // ワークシートを作成
         await this.sheets.spreadsheets.batchUpdate({
           spreadsheetId,
@@ -400,7 +565,7 @@ export class SheetsService {
                   title: worksheetName,
                   gridProperties: {
                     rowCount: 1000,
-                    columnCount: 10
+                    columnCount: Math.max(columnCount, 10)
                   }
                 }
               }
@@ -414,6 +579,61 @@ export class SheetsService {
     }
   }
 
+  /**
+   * 既存シートのヘッダー行が今回の列より短い場合（列追加前に作成されたシート等）は1行目を書き直す
+   */
+  private async ensureHeaderRow(spreadsheetId: string, worksheetName: string, headers: string[]): Promise<void> {
+    const headerRow = await this.sheets!.spreadsheets.values.get({
+      spreadsheetId,
+      range: `${worksheetName}!1:1`
+    });
+    const currentLength = headerRow.data.values?.[0]?.length || 0;
+    if (currentLength >= headers.length) return;
+
+    await this.sheets!.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${worksheetName}!A1:${this.columnLetter(headers.length)}1`,
+      valueInputOption: 'USER_ENTERED',
+      requestBody: { values: [headers] }
+    });
+    console.log(`📋 ワークシート「${worksheetName}」のヘッダー行を${headers.length}列に更新しました`);
+  }
+
+  /**
+   * 列番号（1始まり）をA1表記の列名に変換
+   */
+  private columnLetter(columnNumber: number): string {
+    let letter = '';
+    let n = columnNumber;
+    while (n > 0) {
+      const remainder = (n - 1) % 26;
+      letter = String.fromCharCode(65 + remainder) + letter;
+      n = Math.floor((n - 1) / 26);
+    }
+    return letter;
+  }
+
+  /**
+   * 書き込み結果を返却用の型に変換（totalRows はヘッダー行を含むシート全体の行数）
+   */
+  private toExportResult(
+    spreadsheetId: string,
+    worksheetName: string,
+    startRow: number,
+    writtenRows: number,
+    newRows: number
+  ): ExportResult {
+    return {
+      success: true,
+      spreadsheetId,
+      worksheetName,
+      totalRows: startRow + writtenRows - 1,
+      newRows,
+      startRow,
+      url: `https://docs.google.com/spreadsheets/d/${spreadsheetId}`
+    };
+  }
+
   /**
    * 初期ヘッダー行の設定
    */
@@ -439,8 +659,8 @@ export class SheetsService {
               { userEnteredValue: { stringValue: 'いいね数' } },
               { userEnteredValue: { stringValue: 'リツイート数' } },
               { userEnteredValue: { stringValue: '返信数' } },
-              { userEnteredValue: { stringValue: 'リツイート?' } },
-              { userEnteredValue: { stringValue: '元ユーザー' } },
+              { userEnteredValue: { stringValue: 'リポスト?' } },
+              { userEnteredValue: { stringValue: 'リポストしたユーザー' } },
               { userEnteredValue: { stringValue: 'URL' } },
               { userEnteredValue: { stringValue: '収集日時' } }
             ]
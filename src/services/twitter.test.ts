@@ -0,0 +1,112 @@
+// src/services/twitter.test.ts
+// チェックポイントからの再開（collectTweetsNaturally）をページ操作・抽出をスタブにして検証
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Page } from 'puppeteer';
+import { Tweet } from '../types/interfaces.js';
+import { TwitterService } from './twitter.js';
+import { CursorStore } from './cursor-store.js';
+import { CheckpointStore } from './checkpoint-store.js';
+import { RequestBudget } from './request-budget.js';
+
+const PROFILE_URL = 'https://x.com/alice';
+const CURSOR_KEY = 'user:alice:posts';
+
+function tweet(id: number): Tweet {
+  return {
+    id: `${id}`,
+    permalink: `https://x.com/alice/status/${id}`,
+    text: `tweet ${id}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1) + id * 60000).toISOString(),
+    author: 'alice',
+    likes: 0,
+    retweets: 0,
+    replies: 0,
+    isRetweet: false,
+    isPinned: false,
+    isQuote: false,
+    isPromoted: false,
+    isSensitive: false
+  };
+}
+
+/**
+ * 新しい順のタイムライン（110〜101）を、スクロールごとに3件ずつ表示するスタブ
+ * advance: false の場合は先頭から先に読み込まれない（チェックポイントまで戻れない）
+ */
+function createService(dir: string, advance: boolean = true) {
+  const page = {
+    on: () => undefined,
+    url: () => PROFILE_URL,
+    viewport: () => null,
+    evaluate: async () => { throw new Error('stub'); }
+  } as unknown as Page;
+
+  const cursorStore = new CursorStore(path.join(dir, 'cursors.json'));
+  const checkpointStore = new CheckpointStore(path.join(dir, 'checkpoints'));
+  const service = new TwitterService(page, new RequestBudget(), cursorStore, checkpointStore);
+
+  const timeline = Array.from({ length: 10 }, (_, i) => tweet(110 - i));
+  let scrolls = 0;
+  const stub = service as any;
+  stub.assertPageState = async () => 'ok';
+  stub.scrollPage = async () => { scrolls++; };
+  stub.checkTimelineEnd = async () => ({ atBottom: false, emptyState: false });
+  stub.extractTweetsWithMode = async () => {
+    const start = advance ? Math.min((scrolls - 1) * 2, timeline.length - 3) : 0;
+    return timeline.slice(start, start + 3);
+  };
+
+  return { service, cursorStore, checkpointStore };
+}
+
+test('resume: チェックポイントの位置まで停滞と判定せずに戻り、続きから収集する', async t => {
+  t.mock.method(Math, 'random', () => 0); // humanDelay の待機をなくす
+  const dir = mkdtempSync(path.join(tmpdir(), 'x-collector-test-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const { service, cursorStore, checkpointStore } = createService(dir);
+
+  // 前回は 110〜106 まで収集して中断
+  await checkpointStore.save({
+    key: CURSOR_KEY,
+    url: PROFILE_URL,
+    tweets: [110, 109, 108, 107, 106].map(tweet),
+    updatedAt: new Date().toISOString()
+  });
+
+  const result = await service.collectTweetsNaturally({
+    maxTweets: 8, scrollDelay: 0, readingTime: 0, stallLimit: 2, resume: true, extractionMode: 'dom'
+  });
+
+  assert.equal(result.stopReason, 'max_tweets');
+  assert.deepEqual(result.tweets?.map(item => item.id), ['110', '109', '108', '107', '106', '105', '104', '103']);
+  assert.equal(await checkpointStore.get(CURSOR_KEY), null);
+  assert.equal((await cursorStore.get(CURSOR_KEY))?.newestId, '110');
+});
+
+test('resume: チェックポイントの位置まで戻れなかった場合はチェックポイントとカーソルを残す', async t => {
+  t.mock.method(Math, 'random', () => 0);
+  const dir = mkdtempSync(path.join(tmpdir(), 'x-collector-test-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const { service, cursorStore, checkpointStore } = createService(dir, false);
+
+  await checkpointStore.save({
+    key: CURSOR_KEY,
+    url: PROFILE_URL,
+    tweets: [110, 109, 108, 107, 106].map(tweet),
+    updatedAt: new Date().toISOString()
+  });
+
+  const result = await service.collectTweetsNaturally({
+    maxTweets: 8, scrollDelay: 0, readingTime: 0, stallLimit: 2, maxScrolls: 4, resume: true, extractionMode: 'dom'
+  });
+
+  assert.equal(result.stopReason, 'scroll_limit');
+  assert.equal(result.tweets?.length, 5);
+  assert.equal((await checkpointStore.get(CURSOR_KEY))?.tweets.length, 5);
+  assert.equal(await cursorStore.get(CURSOR_KEY), null);
+});
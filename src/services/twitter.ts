@@ -2,95 +2,364 @@
 // X(Twitter)操作の専用サービス - 2025年最新DOM構造対応版
 
 import { Page } from 'puppeteer';
-import { Tweet, UserProfile, MCPResponse, CollectionConfig, SearchConfig } from '../types/interfaces.js';
+import {
+  Tweet,
+  UserProfile,
+  UserListEntry,
+  MCPResponse,
+  CollectionConfig,
+  SearchConfig,
+  ThreadConfig,
+  ConversationThread,
+  UserListConfig,
+  UserListType,
+  ProfileTab,
+  TimelineSource,
+  ExtractionMode,
+  CollectionStopReason,
+  CollectionCursor,
+  TweetFetchResult,
+  PageState,
+  LoginStatus,
+  TweetPoll
+} from '../types/interfaces.js';
 import { humanDelay, humanMouseMove, humanScroll } from '../utils/human-behavior.js';
+import { buildSearchQuery, buildSearchUrl } from '../utils/search-query.js';
+import { parseCount, parseEngagementLabel, normalizeTimestamp, getDefaultTimeZone, isValidTimeZone } from '../utils/locale-parser.js';
+import { CursorStore, compareTweetIds } from './cursor-store.js';
+import { CheckpointStore } from './checkpoint-store.js';
+import { NetworkCaptureService } from './network-capture.js';
+import { RequestBudget, RequestBudgetError } from './request-budget.js';
+import { PageStateError, detectPageState, formatPageState } from './page-state.js';
 import { 
   LOGIN_SELECTORS_ARRAY, 
   TWEET_SELECTORS, 
   PROFILE_SELECTORS,
+  THREAD_SELECTORS,
+  ACCOUNT_SELECTORS,
+  TWEET_LABEL_SELECTORS,
+  TWEET_DETAIL_SELECTORS,
+  TWEET_CARD_SELECTORS,
+  USER_CELL_SELECTORS,
+  BLOCKED_SCREEN_SELECTORS,
   parseEngagement,
+  parseJoinDate,
   getTextContent,
   getAttribute 
 } from '../utils/selectors.js';
 
+/**
+ * プロフィールのタブとURLパスの対応
+ */
+const PROFILE_TAB_PATHS: Record<ProfileTab, string> = {
+  posts: '',
+  replies: '/with_replies',
+  media: '/media',
+  likes: '/likes',
+  highlights: '/highlights'
+};
+
+const STOP_REASON_LABELS: Record<CollectionStopReason, string> = {
+  max_tweets: '上限件数に到達',
+  date_bound: '指定期間より古いツイートに到達',
+  known_tweets: '前回収集済みのツイートに到達',
+  stalled: '新しいツイートが読み込まれない（停滞）',
+  end_of_timeline: 'タイムラインの終端に到達',
+  scroll_limit: 'スクロール回数の上限に到達',
+  rate_limited: 'Xのレート制限・エラー画面を検出（クールダウン中）',
+  error: 'エラー'
+};
+
+/**
+ * wait_for_login の最大待機時間（秒）。MCPクライアントのリクエストタイムアウト（既定60秒）未満に抑える
+ */
+export const MAX_LOGIN_WAIT_SECONDS = 55;
+
+const PROFILE_TAB_LABELS: Record<ProfileTab, string> = {
+  posts: 'ポスト',
+  replies: '返信',
+  media: 'メディア',
+  likes: 'いいね',
+  highlights: 'ハイライト'
+};
+
 export class TwitterService {
   // データストレージの追加
   private lastCollectedTweets: Tweet[] = [];
   private lastCollectedProfile: UserProfile | null = null;
+  private lastCollectedUsers: UserListEntry[] = [];
 
-  constructor(private page: Page) {}
+  // GraphQLレスポンスの監視（ページ生成直後から常時監視し、遷移ごとにリセット）
+  private networkCapture: NetworkCaptureService;
+
+  constructor(
+    private page: Page,
+    private budget: RequestBudget = new RequestBudget(),
+    private cursorStore: CursorStore = new CursorStore(),
+    private checkpointStore: CheckpointStore = new CheckpointStore()
+  ) {
+    this.networkCapture = new NetworkCaptureService(page);
+  }
 
   /**
-   * 指定ユーザーのページに移動
+   * クラッシュ復旧後の新しいページに付け替え（カーソル・収集済みデータは維持）
    */
-  async navigateToUser(username: string): Promise<MCPResponse> {
-    console.log(`🌐 ${username}のページに移動中...`);
-    
+  attachPage(page: Page): void {
+    this.page = page;
+    this.networkCapture = new NetworkCaptureService(page);
+  }
+
+  /**
+   * リクエスト予算を消費してページを開き、移動後のページ状態を返す
+   */
+  private async gotoPage(url: string): Promise<PageState> {
+    await this.budget.acquire('navigation');
     await humanDelay(1000, 2000);
-    await this.page.goto(`https://x.com/${username}`, {
+    await this.page.goto(url, {
       waitUntil: 'networkidle2',
       timeout: 30000
     });
     await humanDelay(2000, 4000);
+    await this.budget.checkPage(this.page);
+    return detectPageState(this.page);
+  }
+
+  /**
+   * 表示中のページが処理できる状態か確認（それ以外は PageStateError）
+   */
+  private async assertPageState(allowed: PageState[] = ['ok']): Promise<PageState> {
+    const state = await detectPageState(this.page);
+    if (!allowed.includes(state)) {
+      throw new PageStateError(state, this.page.url());
+    }
+    return state;
+  }
+
+  /**
+   * リクエスト予算を消費してスクロール（スクロールごとに追加のタイムライン読み込みが発生するため）
+   */
+  private async scrollPage(): Promise<void> {
+    await this.budget.acquire('scroll');
+    await humanScroll(this.page);
+  }
+
+  /**
+   * レート制限・エラー画面からの再試行（クールダウンの終了を待ち、「再試行」ボタンまたは再読み込み）
+   */
+  private async retryBlockedScreen(): Promise<void> {
+    await this.budget.acquire('navigation');
+
+    const buttons = await this.page.$$(`${BLOCKED_SCREEN_SELECTORS.root} ${BLOCKED_SCREEN_SELECTORS.retryButton}`);
+    let clicked = false;
+    for (const button of buttons) {
+      const label = await button.evaluate(el => el.textContent?.trim() || '');
+      if (!(BLOCKED_SCREEN_SELECTORS.retryButtonTexts as readonly string[]).includes(label)) continue;
+      await button.click().catch(() => undefined);
+      clicked = true;
+      break;
+    }
+    if (!clicked) {
+      await this.page.reload({ waitUntil: 'networkidle2', timeout: 30000 });
+    }
+
+    await humanDelay(2000, 4000);
+  }
+
+  /**
+   * レート制限・エラー画面が表示されていればエラー（0件の結果を正常終了として返さないため）
+   */
+  private async assertNotBlocked(): Promise<void> {
+    const blocked = await this.budget.checkPage(this.page);
+    if (blocked) {
+      const label = blocked === 'rate_limited' ? 'レート制限' : '読み込みエラー';
+      throw new Error(`Xの${label}画面が表示されています。クールダウン後に再実行してください。`);
+    }
+  }
+
+  /**
+   * 指定ユーザーのページに移動
+   */
+  async navigateToUser(username: string, tab: ProfileTab = 'posts'): Promise<MCPResponse> {
+    // ツール引数から渡される値のため、未対応のタブは移動前にエラー
+    if (!Object.prototype.hasOwnProperty.call(PROFILE_TAB_PATHS, tab)) {
+      throw new Error(`未対応のプロフィールタブです: ${tab}（指定できる値: ${Object.keys(PROFILE_TAB_PATHS).join(', ')}）`);
+    }
+    console.log(`🌐 ${username}のページ（${PROFILE_TAB_LABELS[tab]}）に移動中...`);
+    
+    const state = await this.gotoPage(`https://x.com/${username}${PROFILE_TAB_PATHS[tab]}`);
 
     return {
       content: [{
         type: "text",
-        text: `📱 @${username} のページに移動しました。ログイン状態を確認してください。`
-      }]
+        text: `📱 @${username} のページ（${PROFILE_TAB_LABELS[tab]}タブ）に移動しました。` +
+              (state === 'ok' ? 'ログイン状態を確認してください。' : '') +
+              `\n${formatPageState(state)}`
+      }],
+      pageState: state
     };
   }
 
   /**
-   * ログイン状態をチェック
+   * ログイン状態をチェック（ログインボタンがないことに加え、ログイン済みの表示を確認できた場合のみログイン済みとする）
    */
-  async checkLoginStatus(): Promise<MCPResponse> {
-    let needsLogin = false;
-    
-    for (const selector of LOGIN_SELECTORS_ARRAY) {
-      const element = await this.page.$(selector);
-      if (element) {
-        needsLogin = true;
-        break;
-      }
+  async checkLoginStatus(profile: string | null = null): Promise<MCPResponse> {
+    // 画面遷移中で判定できない場合は unknown（読み込み中）として返す
+    const login = await this.detectLoginStatus().catch((): LoginStatus => ({ state: 'unknown' }));
+    const profileLine = `👤 プロファイル: ${profile || '一時プロファイル'}`;
+
+    const texts = {
+      logged_in: "✅ ログイン済みです。データ収集を開始できます。\n" +
+        `${profileLine}\n🆔 アカウント: ${login.account ? `@${login.account}` : '不明'}`,
+      login_required: "🔐 ログインが必要です。wait_for_loginツールでログインの完了を待機してください。\n" + profileLine,
+      unknown: "❓ ログイン済みの表示を確認できません（ページの読み込み中、またはXのページ以外の可能性があります）。\n" +
+        `${profileLine}\n💡 wait_for_login でログインの完了を待機できます`
+    };
+
+    return {
+      content: [{
+        type: "text",
+        text: texts[login.state]
+      }],
+      login
+    };
+  }
+
+  /**
+   * ログインが完了するまでページを監視（ホームタイムライン・アカウント切り替えボタン等が表示されたら完了）
+   */
+  async waitForLogin(timeoutSeconds: number = 45, pollIntervalSeconds: number = 3): Promise<MCPResponse> {
+    // MCPクライアントのリクエストタイムアウト（既定60秒）より前に必ず応答を返す
+    if (!(timeoutSeconds > 0 && timeoutSeconds <= MAX_LOGIN_WAIT_SECONDS)) {
+      throw new Error(`timeoutSeconds は0より大きく${MAX_LOGIN_WAIT_SECONDS}以下で指定してください: ${timeoutSeconds}`);
+    }
+    if (!(pollIntervalSeconds > 0)) {
+      throw new Error(`pollIntervalSeconds は0より大きい値で指定してください: ${pollIntervalSeconds}`);
     }
 
-    if (needsLogin) {
-      return {
-        content: [{
-          type: "text",
-          text: "🔐 ログインが必要です。pause_for_human_interactionツールを使用して手動ログインを待機してください。"
-        }]
-      };
-    } else {
-      return {
-        content: [{
-          type: "text",
-          text: "✅ ログイン済みです。データ収集を開始できます。"
-        }]
-      };
+    // ログイン画面への移動時間も待機時間に含める
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutSeconds * 1000;
+
+    // Xのページ以外（起動直後の about:blank 等）ではログイン画面を開く
+    if (!/^https:\/\/([a-z]+\.)?(x|twitter)\.com\//.test(this.page.url())) {
+      await this.gotoPage('https://x.com/i/flow/login');
+    }
+    await this.page.bringToFront();
+
+    console.error(`🔐 ログインの完了を待機しています（最大${timeoutSeconds}秒）。ブラウザでログインしてください。`);
+
+    // ログイン画面の遷移中は判定できないため unknown として待機を続ける
+    let login = await this.detectLoginStatus().catch((): LoginStatus => ({ state: 'unknown' }));
+    while (login.state !== 'logged_in' && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(pollIntervalSeconds * 1000, Math.max(0, deadline - Date.now()))));
+      login = await this.detectLoginStatus().catch(() => login); // ログイン直後の画面遷移中は前回の状態を維持
+    }
+
+    const waitedSeconds = Math.round((Date.now() - startedAt) / 1000);
+    const timedOut = login.state !== 'logged_in';
+
+    return {
+      content: [{
+        type: "text",
+        text: timedOut
+          ? `⏱️ ${timeoutSeconds}秒以内にログインを確認できませんでした（状態: ${login.state}）。再度 wait_for_login を実行してください。`
+          : `✅ ログインを確認しました（${waitedSeconds}秒）\n🆔 アカウント: ${login.account ? `@${login.account}` : '不明'}`
+      }],
+      login: { ...login, timedOut, waitedSeconds }
+    };
+  }
+
+  /**
+   * ログイン画面の要素と、ログイン済みでのみ表示される要素の両方から状態を判定
+   */
+  private async detectLoginStatus(): Promise<LoginStatus> {
+    const loggedIn = await this.page.evaluate((selectors: typeof ACCOUNT_SELECTORS) =>
+      [selectors.accountSwitcher, selectors.profileLink, selectors.homeTimeline, selectors.composeButton]
+        .some(selector => !!document.querySelector(selector)), ACCOUNT_SELECTORS);
+
+    if (loggedIn) {
+      return { state: 'logged_in', account: await this.getLoggedInAccount() ?? undefined };
     }
+
+    for (const selector of LOGIN_SELECTORS_ARRAY) {
+      // CSSとして解釈できないセレクタ（text="..." 等）は無視
+      const element = await this.page.$(selector).catch(() => null);
+      if (element) return { state: 'login_required' };
+    }
+    return { state: 'unknown' };
+  }
+
+  /**
+   * サイドナビからログイン中のアカウントのハンドルを取得
+   */
+  private async getLoggedInAccount(): Promise<string | null> {
+    return this.page.evaluate((selectors: typeof ACCOUNT_SELECTORS) => {
+      const switcherText = document.querySelector(selectors.accountSwitcher)?.textContent || '';
+      const handle = switcherText.match(/@([A-Za-z0-9_]+)/);
+      if (handle) return handle[1];
+
+      const href = document.querySelector(selectors.profileLink)?.getAttribute('href') || '';
+      return href.match(/^\/([A-Za-z0-9_]+)$/)?.[1] || null;
+    }, ACCOUNT_SELECTORS);
   }
 
   /**
    * キーワード検索
    */
   async searchTweets(config: SearchConfig): Promise<MCPResponse> {
-    const { query, maxResults = 10 } = config;
+    const { maxResults = 10, tab = 'latest' } = config;
+
+    // 構造化された条件を検索演算子構文に変換
+    const compiledQuery = buildSearchQuery(config);
+    if (!compiledQuery) {
+      throw new Error('検索条件が指定されていません。queryまたは検索演算子を指定してください。');
+    }
+    const searchUrl = buildSearchUrl(compiledQuery, tab);
     
     // 検索ページに移動
-    await this.page.goto(`https://x.com/search?q=${encodeURIComponent(query)}&src=typed_query&f=live`);
-    await humanDelay(3000, 5000);
+    const state = await this.gotoPage(searchUrl);
+    if (state !== 'ok') {
+      throw new PageStateError(state, searchUrl);
+    }
+
+    const header = `🔍 「${compiledQuery}」の検索結果（${tab}タブ）\n🔗 ${searchUrl}\n\n`;
+
+    // 「ユーザー」タブはユーザーセルを収集
+    if (tab === 'people') {
+      const users = await this.scrollUserCells(compiledQuery, 'search_people', maxResults, 2000, 1500);
+      this.lastCollectedUsers = users;
+
+      return {
+        content: [{
+          type: "text",
+          text: header + `👥 ${users.length}人のユーザーを収集しました\n\n` +
+                users.slice(0, 10).map((user, index) =>
+                  `${index + 1}. ${user.displayName} (@${user.username})${user.verified ? ' ✅' : ''}`
+                ).join('\n') +
+                `\n\n💡 export_users_to_sheets でスプレッドシートに出力できます`
+        }],
+        users,
+        searchQuery: compiledQuery
+      };
+    }
 
     // ツイート収集
-    const result = await this.collectTweetsNaturally({ maxTweets: maxResults, scrollDelay: 2000, readingTime: 1500 });
+    const result = await this.collectTweetsNaturally({
+      maxTweets: maxResults,
+      scrollDelay: 2000,
+      readingTime: 1500,
+      sinceLastRun: config.sinceLastRun
+    });
     
     return {
       content: [{
         type: "text",
-        text: `🔍 「${query}」の検索結果: ${result.content[0].text}`
+        text: header + result.content[0].text
       }],
-      tweets: result.tweets
+      tweets: result.tweets,
+      searchQuery: compiledQuery,
+      cursor: result.cursor,
+      stopReason: result.stopReason
     };
   }
 
@@ -98,34 +367,203 @@ export class TwitterService {
    * 人間らしいスクロールでツイートを収集
    */
   async collectTweetsNaturally(config: CollectionConfig = {}): Promise<MCPResponse> {
-    const { maxTweets = 20, scrollDelay = 3000, readingTime = 2000 } = config;
+    const {
+      maxTweets = 20,
+      scrollDelay = 3000,
+      readingTime = 2000,
+      sinceLastRun = false,
+      extractionMode = 'network',
+      since,
+      until,
+      stallLimit = 3,
+      timeZone = getDefaultTimeZone(),
+      includePromoted = false,
+      includePinned = true,
+      includeSensitive = true,
+      revealSensitive = false,
+      resume = false,
+      maxScrolls = Math.max(maxTweets, 30) // 安全上限（通常は他の停止条件が先に働く）
+    } = config;
+
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`不明なタイムゾーンです: ${timeZone}（例: Asia/Tokyo, UTC）`);
+    }
+    await this.assertPageState();
     
     console.log("🤖 自動操作を開始します。人間によるカーソル操作はブロックされます。");
     console.log(`🔍 現在のURL: ${await this.page.url()}`);
 
+    // 収集対象ごとのカーソル（前回までに見た最新ツイート）
+    // カーソルファイルが読めない場合も収集は続ける（前回位置なしとして扱い、結果に記録）
+    const cursorKey = this.getCursorKey(this.page.url());
+    let previousCursor: CollectionCursor | null = null;
+    let cursorError = '';
+    try {
+      previousCursor = await this.cursorStore.get(cursorKey);
+    } catch (error) {
+      cursorError = `${error}`;
+      console.error(`⚠️ カーソルの読み込みに失敗しました: ${error}`);
+    }
+    if (sinceLastRun && previousCursor) {
+      console.log(`⏩ 前回の最新ツイート ${previousCursor.newestId} (${previousCursor.newestTimestamp}) までを収集します`);
+    }
+
+    // 期間指定（日付のみの until はその日の終わりまでを含む）
+    const sinceTime = since ? Date.parse(since) : NaN;
+    const untilTime = until
+      ? Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(until) ? `${until}T23:59:59.999Z` : until)
+      : NaN;
+
     const tweets: Tweet[] = [];
+    const seenIds = new Set<string>();
+
+    // 中断した収集の続きから再開（収集済みのツイートは重複として扱う）
+    // ページは先頭から読み直すため、チェックポイントの最古のツイートまでは停滞と判定しない
+    const checkpoint = resume ? await this.checkpointStore.get(cursorKey) : null;
+    let seekId: string | null = null;
+    if (checkpoint) {
+      tweets.push(...checkpoint.tweets.slice(0, maxTweets));
+      checkpoint.tweets.forEach(tweet => seenIds.add(tweet.id));
+      console.log(`♻️ チェックポイントから${tweets.length}件を復元しました（${checkpoint.updatedAt}）`);
+
+      const ordered = checkpoint.tweets.filter(tweet => !tweet.isPinned && !tweet.isRetweet);
+      seekId = tweets.length < maxTweets
+        ? (ordered.length > 0 ? ordered : checkpoint.tweets)
+          .map(tweet => tweet.id)
+          .reduce<string | null>((oldest, id) => oldest === null || compareTweetIds(id, oldest) < 0 ? id : oldest, null)
+        : null;
+    }
+
+    let stopReason: CollectionStopReason = 'scroll_limit';
+    let errorMessage: string | undefined;
+    let idleRounds = 0;
     let scrollCount = 0;
-    const maxScrolls = Math.ceil(maxTweets / 3); // 1スクロールで約3ツイート取得想定
+    let blockedRetries = 0;
+    const excluded = { promoted: 0, pinned: 0, sensitive: 0 };
 
     try {
-      for (let i = 0; i < maxScrolls && tweets.length < maxTweets; i++) {
+      for (let i = 0; i < maxScrolls; i++) {
         console.log(`📜 スクロール ${i + 1}/${maxScrolls}`);
         
         // 人間らしいマウス移動とスクロール
         await humanMouseMove(this.page);
-        await humanScroll(this.page);
+        await this.scrollPage();
+        scrollCount++;
         
         // 読んでいる風の待機
         await humanDelay(readingTime, readingTime + 1000);
+
+        if (revealSensitive) {
+          const revealed = await this.revealSensitiveContent();
+          if (revealed > 0) console.log(`👁️ センシティブな内容の警告を${revealed}件表示しました`);
+        }
         
-        // ツイート情報を取得
-        const pageTweets = await this.extractTweets();
+        // ツイート情報を取得（収集元のタイムラインを付与）
+        const timeline = this.detectTimeline(this.page.url());
+        const pageTweets = (await this.extractTweetsWithMode(extractionMode, true, timeZone)).map(tweet => ({ ...tweet, timeline }));
         console.log(`📊 このページで ${pageTweets.length} 件のツイートを抽出`);
         
-        // 新しいツイートのみ追加
+        // 新しいツイートのみ追加（ステータスIDで重複排除）
+        let addedCount = 0;
+        let knownCount = 0;
+        let olderCount = 0;
+        let freshCount = 0;
         for (const tweet of pageTweets) {
-          if (!tweets.find(t => t.id === tweet.id) && tweets.length < maxTweets) {
+          if (seekId && !tweet.isPinned && !tweet.isRetweet && compareTweetIds(tweet.id, seekId) <= 0) {
+            seekId = null;
+            idleRounds = 0;
+            console.log("⏩ チェックポイントの位置まで戻りました。続きから収集します");
+          }
+          if (seenIds.has(tweet.id)) continue;
+          freshCount++;
+
+          // 広告・固定・センシティブの除外設定
+          const excludedAs = tweet.isPromoted && !includePromoted ? 'promoted'
+            : tweet.isPinned && !includePinned ? 'pinned'
+            : tweet.isSensitive && !includeSensitive ? 'sensitive'
+            : null;
+          if (excludedAs) {
+            excluded[excludedAs]++;
+            seenIds.add(tweet.id);
+            continue;
+          }
+
+          // 固定ツイート・リポストは投稿時刻がタイムライン順と一致しないため、停止判定には使わない
+          const outOfOrder = tweet.isPinned || tweet.isRetweet;
+
+          if (sinceLastRun && previousCursor && compareTweetIds(tweet.id, previousCursor.newestId) <= 0) {
+            if (!outOfOrder) knownCount++;
+            seenIds.add(tweet.id);
+            continue;
+          }
+
+          const postedAt = Date.parse(tweet.timestamp);
+          if (!isNaN(postedAt)) {
+            if (!isNaN(sinceTime) && postedAt < sinceTime) {
+              if (!outOfOrder) olderCount++;
+              seenIds.add(tweet.id);
+              continue;
+            }
+            // until より新しいものは対象外だが、さらに遡れば範囲内に入るため継続
+            if (!isNaN(untilTime) && postedAt > untilTime) {
+              seenIds.add(tweet.id);
+              continue;
+            }
+          }
+
+          if (tweets.length < maxTweets) {
+            seenIds.add(tweet.id);
             tweets.push(tweet);
+            addedCount++;
+          }
+        }
+
+        if (addedCount > 0) {
+          await this.checkpointStore.save({ key: cursorKey, url: this.page.url(), tweets, updatedAt: new Date().toISOString() });
+        }
+
+        if (tweets.length >= maxTweets) {
+          stopReason = 'max_tweets';
+          break;
+        }
+
+        // 既知・期間外のツイートのみの画面になったら停止（固定ツイートは新着と混在するため継続）
+        if (knownCount > 0 && addedCount === 0) {
+          stopReason = 'known_tweets';
+          console.log("⏹️ 前回収集済みのツイートに到達しました");
+          break;
+        }
+        if (olderCount > 0 && addedCount === 0) {
+          stopReason = 'date_bound';
+          console.log("⏹️ 指定期間より古いツイートに到達しました");
+          break;
+        }
+
+        // 新しいIDが出てこない場合は、Xのレート制限・エラー画面でないかを先に確認
+        if (freshCount === 0 && await this.budget.checkPage(this.page)) {
+          if (blockedRetries >= 2) {
+            stopReason = 'rate_limited';
+            console.log("⏹️ レート制限・エラー画面が解消しないため停止しました");
+            break;
+          }
+          blockedRetries++;
+          await this.retryBlockedScreen();
+          continue;
+        }
+
+        // 新しいIDが出てこない状態が続いたら終端または停滞と判定
+        idleRounds = freshCount === 0 ? idleRounds + 1 : 0;
+        if (idleRounds > 0) {
+          const end = await this.checkTimelineEnd();
+          if (end.emptyState || (end.atBottom && idleRounds >= 2)) {
+            stopReason = 'end_of_timeline';
+            console.log("⏹️ タイムラインの終端に到達しました");
+            break;
+          }
+          if (idleRounds >= stallLimit && !seekId) {
+            stopReason = 'stalled';
+            console.log(`⏹️ ${stallLimit}回連続で新しいツイートがないため停止しました`);
+            break;
           }
         }
         
@@ -133,72 +571,626 @@ export class TwitterService {
         if (i < maxScrolls - 1) {
           await humanDelay(scrollDelay, scrollDelay + 1000);
         }
-        
-        scrollCount++;
       }
+    } catch (error) {
+      // 途中までの収集結果は返す（予算切れ・クールダウン待ちの中断はレート制限として扱う）
+      stopReason = error instanceof RequestBudgetError ? 'rate_limited' : 'error';
+      errorMessage = `${error instanceof RequestBudgetError ? error.message : error}`;
+      console.error(`❌ ツイート収集中にエラーが発生しました: ${error}`);
+    }
 
-      // 収集したデータを保存
-      this.lastCollectedTweets = tweets;
-      
-      // ユニークな作者をログ出力
-      const uniqueAuthors = [...new Set(tweets.map(t => t.author))];
-      console.log(`👥 ユニークな作者: ${uniqueAuthors.join(', ')}`);
-      console.log("✋ 自動操作が完了しました。カーソル操作権が戻りました。");
+    // 収集したデータを保存（中断時はカーソルを進めず、チェックポイントを残して再開に備える）
+    this.lastCollectedTweets = tweets;
+    // チェックポイントの位置まで戻れなかった再開も中断として扱う（上限件数に達した場合を除く）
+    const interrupted = stopReason === 'error' || stopReason === 'rate_limited' || (seekId !== null && stopReason !== 'max_tweets');
+    let cursor = previousCursor;
+    if (!interrupted) {
+      // カーソルファイルの読み書きに失敗しても、収集済みのツイートは返す（カーソルは前回のまま）
+      try {
+        cursor = await this.cursorStore.update(cursorKey, tweets);
+      } catch (error) {
+        cursorError = `${error}`;
+        console.error(`⚠️ カーソルの更新に失敗しました: ${error}`);
+      }
+      // 削除に失敗しても収集結果は返す（次回 resume で同じチェックポイントが残るだけ）
+      try {
+        await this.checkpointStore.clear(cursorKey);
+      } catch (error) {
+        console.error(`⚠️ チェックポイントの削除に失敗しました: ${error}`);
+      }
+    }
+    
+    // ユニークな作者をログ出力
+    const uniqueAuthors = [...new Set(tweets.map(t => t.author))];
+    console.log(`👥 ユニークな作者: ${uniqueAuthors.join(', ')}`);
+    console.log("✋ 自動操作が完了しました。カーソル操作権が戻りました。");
+
+    return {
+      content: [{
+        type: "text",
+        text: `📊 ${tweets.length}件のツイートを収集しました（${scrollCount}回スクロール）\n` +
+            `🛰️ 抽出方式: ${this.describeExtraction(extractionMode)}\n` +
+            `⏹️ 停止理由: ${STOP_REASON_LABELS[stopReason]}${errorMessage ? ` - ${errorMessage}` : ''}\n` +
+            (since || until ? `📅 期間: ${since || '指定なし'} 〜 ${until || '指定なし'}\n` : '') +
+            (excluded.promoted + excluded.pinned + excluded.sensitive > 0
+              ? `🚫 除外: 広告 ${excluded.promoted}件 / 固定 ${excluded.pinned}件 / センシティブ ${excluded.sensitive}件\n`
+              : '') +
+            (cursor ? `📍 カーソル [${cursor.key}]: 最新ID ${cursor.newestId} (${cursor.newestTimestamp})\n` : '') +
+            (cursorError ? `⚠️ カーソルを読み書きできませんでした（前回のカーソルのままです）: ${cursorError}\n` : '') +
+            (checkpoint ? `♻️ チェックポイントから${Math.min(checkpoint.tweets.length, maxTweets)}件を引き継ぎました\n` : '') +
+            (interrupted ? `💾 途中経過を保存しました。resume: true で続きから再開できます\n` : '') +
+            `\n` +
+            tweets.slice(0, 5).map((tweet, index) => 
+              `${index + 1}. [@${tweet.author}] ${tweet.text.substring(0, 80)}...\n` +
+              `   👍 ${tweet.likes} 🔄 ${tweet.retweets} 💬 ${tweet.replies} | ${tweet.timestamp}` +
+              this.formatEntitySummary(tweet)
+            ).join('\n\n') +
+            `\n\n💡 export_tweets_to_sheets でスプレッドシートに出力できます`
+      }],
+      tweets: tweets, // 実際のツイートデータを返す
+      cursor: cursor || undefined,
+      stopReason
+    };
+  }
+
+  /**
+   * 表示中のツイートのセンシティブな内容の警告をクリックして表示
+   */
+  private async revealSensitiveContent(): Promise<number> {
+    const buttons = await this.page.$$(`${THREAD_SELECTORS.tweet} ${TWEET_LABEL_SELECTORS.revealButton}`);
+    let clicked = 0;
+
+    for (const button of buttons) {
+      const isReveal = await button.evaluate((el, labels) => {
+        const label = el.textContent?.trim() || '';
+        if (!(labels.revealButtonTexts as readonly string[]).includes(label)) return false;
+        // 警告文を含むブロック内のボタンのみ対象（「さらに表示」等と区別）
+        for (let node = el.parentElement; node && node.tagName !== 'ARTICLE'; node = node.parentElement) {
+          const text = node.textContent?.toLowerCase() || '';
+          if (labels.sensitiveWarningTexts.some(warning => text.includes(warning.toLowerCase()))) return true;
+        }
+        return false;
+      }, TWEET_LABEL_SELECTORS);
+      if (!isReveal) continue;
+
+      await humanDelay(300, 800);
+      await button.click().catch(() => undefined);
+      clicked++;
+    }
 
+    await Promise.all(buttons.map(button => button.dispose()));
+    return clicked;
+  }
+
+  /**
+   * タイムライン終端の判定材料（最下部に到達しているか・空状態の表示があるか）
+   */
+  private async checkTimelineEnd(): Promise<{ atBottom: boolean; emptyState: boolean }> {
+    return this.page.evaluate(() => {
+      const scrollBottom = window.scrollY + window.innerHeight;
+      const loading = !!document.querySelector('[data-testid="primaryColumn"] [role="progressbar"]');
       return {
-        content: [{
-          type: "text",
-          text: `📊 ${tweets.length}件のツイートを収集しました（${scrollCount}回スクロール）\n\n` +
-              tweets.slice(0, 5).map((tweet, index) => 
-                `${index + 1}. [@${tweet.author}] ${tweet.text.substring(0, 80)}...\n` +
-                `   👍 ${tweet.likes} 🔄 ${tweet.retweets} 💬 ${tweet.replies} | ${tweet.timestamp}`
-              ).join('\n\n') +
-              `\n\n💡 export_tweets_to_sheets でスプレッドシートに出力できます`
-        }],
-        tweets: tweets // 実際のツイートデータを返す
+        atBottom: !loading && scrollBottom >= document.documentElement.scrollHeight - 200,
+        emptyState: !!document.querySelector('[data-testid="emptyState"]')
       };
+    });
+  }
+
+  /**
+   * 会話スレッドを収集（ツイート詳細ページを開いた状態で実行）
+   */
+  async collectThread(config: ThreadConfig): Promise<MCPResponse> {
+    const { url, maxReplies = 50, includeHiddenReplies = true, scrollDelay = 2000, readingTime = 1500 } = config;
+
+    const rootId = url.match(/\/status\/(\d+)/)?.[1];
+    if (!rootId) {
+      throw new Error(`ツイートURLからステータスIDを取得できません: ${url}`);
+    }
+
+    const tweetsById = new Map<string, Tweet>();
+    const parentById = new Map<string, string>();
+    const ancestorIds: string[] = [];
+    const maxScrolls = Math.ceil(maxReplies / 3) + 5;
+    let idleRounds = 0;
+    let reachedEnd = false;
+    let expandedCount = 0;
+
+    try {
+      for (let i = 0; i <= maxScrolls; i++) {
+        // 「さらに返信を表示」や非表示返信セクションを展開
+        const expanded = await this.expandConversationReplies(includeHiddenReplies);
+        if (expanded > 0) {
+          expandedCount += expanded;
+          await humanDelay(readingTime, readingTime + 1000);
+        }
+
+        const pageTweets = await this.extractTweetsWithMode('network', false);
+        const layout = await this.extractConversationLayout();
+        const beforeCount = tweetsById.size;
+
+        // セル順序から返信関係を推定（同じグループ内の直前のツイートが返信先）
+        let previous: string | null = null;
+        let seenRoot = false;
+        const windowAncestors: string[] = [];
+
+        for (const entry of layout) {
+          if (entry.kind === 'end') {
+            reachedEnd = true;
+            break;
+          }
+          if (entry.kind === 'break') {
+            previous = 'BREAK';
+            continue;
+          }
+
+          const tweet = pageTweets.find(t => t.id === entry.id);
+          if (!tweet) {
+            previous = entry.id;
+            continue;
+          }
+
+          if (entry.id === rootId) {
+            seenRoot = true;
+            windowAncestors.forEach((id, index) => {
+              if (!ancestorIds.includes(id)) ancestorIds.push(id);
+              if (index > 0 && !parentById.has(id)) parentById.set(id, windowAncestors[index - 1]);
+            });
+            if (windowAncestors.length > 0 && !parentById.has(rootId)) {
+              parentById.set(rootId, windowAncestors[windowAncestors.length - 1]);
+            }
+          } else if (layout.some(e => e.kind === 'tweet' && e.id === rootId) && !seenRoot) {
+            // 同じ画面内で開いたツイートより上にあるものは返信元
+            windowAncestors.push(entry.id);
+          } else if (!parentById.has(entry.id)) {
+            if (previous === 'BREAK') {
+              parentById.set(entry.id, rootId);
+            } else if (previous) {
+              parentById.set(entry.id, previous);
+            }
+          }
+
+          // GraphQLで返信先が判明している場合はDOMからの推定より優先
+          if (tweet.inReplyToId && entry.id !== rootId && !ancestorIds.includes(entry.id)) {
+            parentById.set(entry.id, tweet.inReplyToId);
+          }
+
+          if (!tweetsById.has(entry.id)) tweetsById.set(entry.id, tweet);
+          previous = entry.id;
+        }
+
+        const replyCount = tweetsById.size - ancestorIds.length - (tweetsById.has(rootId) ? 1 : 0);
+        console.log(`🧵 スクロール ${i + 1}: 返信 ${replyCount}件（展開 ${expanded}件）`);
+
+        if (replyCount >= maxReplies) break;
+
+        if (tweetsById.size === beforeCount && expanded === 0) {
+          await this.assertNotBlocked();
+          idleRounds++;
+          if (reachedEnd || idleRounds >= 3) break;
+        } else {
+          idleRounds = 0;
+        }
+
+        await humanMouseMove(this.page);
+        await this.scrollPage();
+        await humanDelay(scrollDelay, scrollDelay + 1000);
+      }
     } catch (error) {
-      throw new Error(`ツイート収集に失敗しました: ${error}`);
+      throw new Error(`スレッド収集に失敗しました: ${error}`);
+    }
+
+    const root = tweetsById.get(rootId);
+    if (!root) {
+      throw new Error('開いたツイートを取得できませんでした。URLとログイン状態を確認してください。');
+    }
+
+    const thread = this.buildConversationThread(rootId, tweetsById, parentById, ancestorIds, maxReplies);
+    const allTweets = [...thread.ancestors, thread.root, ...thread.selfThread, ...thread.replies];
+    this.lastCollectedTweets = allTweets;
+
+    return {
+      content: [{
+        type: "text",
+        text: `🧵 スレッドを収集しました\n\n` +
+              `📌 元ツイート: [@${root.author}] ${root.text.substring(0, 80)}\n` +
+              `⬆️ 返信元: ${thread.ancestors.length}件\n` +
+              `🔗 投稿者のスレッド: ${thread.selfThread.length}件\n` +
+              `💬 返信: ${thread.replies.length}件（展開ボタン ${expandedCount}回）\n\n` +
+              thread.replies.slice(0, 5).map(reply =>
+                `${'  '.repeat(Math.max((reply.depth || 1) - 1, 0))}↳ [@${reply.author}] ${reply.text.substring(0, 60)}`
+              ).join('\n') +
+              `\n\n💡 export_tweets_to_sheets でスプレッドシートに出力できます`
+      }],
+      tweets: allTweets,
+      thread
+    };
+  }
+
+  /**
+   * 収集結果から返信ツリー（inReplyToId / depth）を組み立て
+   */
+  private buildConversationThread(
+    rootId: string,
+    tweetsById: Map<string, Tweet>,
+    parentById: Map<string, string>,
+    ancestorIds: string[],
+    maxReplies: number
+  ): ConversationThread {
+    const depthById = new Map<string, number>([[rootId, 0]]);
+    ancestorIds.forEach((id, index) => depthById.set(id, index - ancestorIds.length));
+
+    const resolveDepth = (id: string, visiting: Set<string> = new Set()): number => {
+      const known = depthById.get(id);
+      if (known !== undefined) return known;
+      const parentId = parentById.get(id) || rootId;
+      // 循環参照の保険
+      if (visiting.has(id)) return 1;
+      visiting.add(id);
+      const depth = resolveDepth(parentId, visiting) + 1;
+      depthById.set(id, depth);
+      return depth;
+    };
+
+    const withThreadInfo = (tweet: Tweet): Tweet => ({
+      ...tweet,
+      timeline: 'thread',
+      inReplyToId: parentById.get(tweet.id) || (tweet.id === rootId || ancestorIds.includes(tweet.id) ? undefined : rootId),
+      depth: resolveDepth(tweet.id)
+    });
+
+    const root = withThreadInfo(tweetsById.get(rootId)!);
+    const ancestors = ancestorIds
+      .filter(id => tweetsById.has(id))
+      .map(id => withThreadInfo(tweetsById.get(id)!));
+
+    const descendants = [...tweetsById.values()]
+      .filter(tweet => tweet.id !== rootId && !ancestorIds.includes(tweet.id))
+      .map(withThreadInfo);
+
+    // 元ツイートから投稿者本人の返信を辿ったものを自己スレッドとする
+    const selfThread: Tweet[] = [];
+    let currentId = rootId;
+    for (;;) {
+      const next = descendants.find(t => t.inReplyToId === currentId && t.author === root.author);
+      if (!next) break;
+      selfThread.push(next);
+      currentId = next.id;
+    }
+
+    const selfThreadIds = new Set(selfThread.map(t => t.id));
+    const replies = descendants.filter(t => !selfThreadIds.has(t.id)).slice(0, maxReplies);
+
+    return { root, ancestors, selfThread, replies };
+  }
+
+  /**
+   * 会話ページのセル構成を取得（ツイート・区切り・セクション終端）
+   */
+  private async extractConversationLayout(): Promise<Array<{ kind: 'tweet'; id: string } | { kind: 'break' } | { kind: 'end' }>> {
+    return this.page.evaluate((selectors: { cell: string; tweet: string; sectionHeading: string }) => {
+      const entries: Array<{ kind: 'tweet'; id: string } | { kind: 'break' } | { kind: 'end' }> = [];
+      let seenTweet = false;
+
+      document.querySelectorAll(selectors.cell).forEach(cell => {
+        const article = cell.querySelector(selectors.tweet);
+        if (article) {
+          const link = article.querySelector('time')?.closest('a[href*="/status/"]');
+          const match = (link?.getAttribute('href') || '').match(/\/status\/(\d+)/);
+          if (match) {
+            entries.push({ kind: 'tweet', id: match[1] });
+            seenTweet = true;
+            return;
+          }
+        }
+
+        // 返信の後の見出し（「もっと見つける」等）以降は会話と無関係
+        if (seenTweet && cell.querySelector(selectors.sectionHeading)) {
+          entries.push({ kind: 'end' });
+          return;
+        }
+
+        entries.push({ kind: 'break' });
+      });
+
+      return entries;
+    }, { cell: THREAD_SELECTORS.cell, tweet: THREAD_SELECTORS.tweet, sectionHeading: THREAD_SELECTORS.sectionHeading });
+  }
+
+  /**
+   * 「さらに返信を表示」・非表示返信の展開ボタンをクリック
+   */
+  private async expandConversationReplies(includeHidden: boolean): Promise<number> {
+    const texts = [
+      ...THREAD_SELECTORS.moreRepliesTexts,
+      ...(includeHidden ? THREAD_SELECTORS.hiddenRepliesTexts : [])
+    ];
+
+    const buttons = await this.page.$$(`${THREAD_SELECTORS.cell} ${THREAD_SELECTORS.expanderButton}`);
+    let clicked = 0;
+
+    for (const button of buttons) {
+      const label = await button.evaluate(el => el.textContent?.trim() || '');
+      // ツイート内のボタン（いいね等）は対象外
+      const insideTweet = await button.evaluate((el, tweetSelector) => !!el.closest(tweetSelector), THREAD_SELECTORS.tweet);
+      if (insideTweet || !texts.some(text => label.includes(text))) continue;
+
+      await humanDelay(500, 1200);
+      await button.click().catch(() => undefined);
+      clicked++;
+    }
+
+    await Promise.all(buttons.map(button => button.dispose()));
+    return clicked;
+  }
+
+  /**
+   * URLで指定したツイートを順に開いて詳細を取得（失敗したURLはエラーとして記録し、処理は継続）
+   */
+  async getTweetsByUrl(urls: string[], navigate: (url: string) => Promise<PageState>): Promise<MCPResponse> {
+    const results: TweetFetchResult[] = [];
+
+    for (const [index, url] of urls.entries()) {
+      console.log(`🔗 ${index + 1}/${urls.length}: ${url}`);
+      try {
+        const state = await navigate(url);
+        if (state !== 'ok') {
+          results.push({ url, status: 'error', error: formatPageState(state), pageState: state });
+          continue;
+        }
+        const tweet = await this.getTweetDetail(url);
+        results.push({ url, status: 'ok', tweet });
+      } catch (error) {
+        console.error(`❌ ツイート取得に失敗しました: ${url} - ${error}`);
+        results.push({ url, status: 'error', error: `${error}`.replace(/^Error: /, '') });
+      }
+    }
+
+    const tweets = results.flatMap(result => result.tweet ? [result.tweet] : []);
+    this.lastCollectedTweets = tweets;
+
+    return {
+      content: [{
+        type: "text",
+        text: `📄 ${urls.length}件中 ${tweets.length}件のツイートを取得しました` +
+              (tweets.length < urls.length ? `（失敗 ${urls.length - tweets.length}件）` : '') + `\n\n` +
+              results.map((result, index) => {
+                if (!result.tweet) return `${index + 1}. ❌ ${result.url}\n   ${result.error}`;
+                const tweet = result.tweet;
+                return `${index + 1}. ✅ [@${tweet.author}] ${tweet.text}\n` +
+                  `   👍 ${tweet.likes} 🔄 ${tweet.retweets} 💬 ${tweet.replies}` +
+                  ` 🗨️ ${tweet.quotes ?? '-'} 🔖 ${tweet.bookmarks ?? '-'} 👁️ ${tweet.views ?? '-'} | ${tweet.timestamp}` +
+                  (tweet.source || tweet.place ? `\n   📱 ${[tweet.source, tweet.place].filter(Boolean).join(' / ')}` : '') +
+                  this.formatEntitySummary(tweet);
+              }).join('\n\n') +
+              `\n\n💡 export_tweets_to_sheets でスプレッドシートに出力できます`
+      }],
+      tweets,
+      fetchResults: results
+    };
+  }
+
+  /**
+   * 開いている個別ツイートページから、対象ツイートを全文・正確な件数・投稿元付きで取得
+   */
+  async getTweetDetail(url: string): Promise<Tweet> {
+    const statusId = url.match(/\/status\/(\d+)/)?.[1];
+    if (!statusId) {
+      throw new Error(`ツイートURLからステータスIDを取得できません: ${url}`);
+    }
+
+    // 長文ツイートの「さらに表示」を展開
+    if (await this.expandFocalShowMore(statusId)) {
+      await humanDelay(800, 1500);
+    }
+
+    // 個別ページの件数はaria-label・GraphQLとも概数ではなく正確な値
+    const pageTweets = await this.extractTweetsWithMode('network', false);
+    const tweet = pageTweets.find(t => t.id === statusId) || this.networkCapture.getTweet(statusId);
+    if (!tweet) {
+      throw new Error(await this.describeUnavailableTweet());
     }
+
+    const postedFrom = await this.page.evaluate((id: string, selectors: typeof TWEET_DETAIL_SELECTORS) => {
+      const article = Array.from(document.querySelectorAll('article'))
+        .find(el => el.querySelector(`a[href*="/status/${id}"] time`));
+      return {
+        source: article?.querySelector(selectors.sourceLabel)?.textContent?.trim() || undefined,
+        place: article?.querySelector(selectors.placeLink)?.textContent?.trim() || undefined
+      };
+    }, statusId, TWEET_DETAIL_SELECTORS);
+
+    return {
+      ...tweet,
+      source: tweet.source || postedFrom.source,
+      place: tweet.place || postedFrom.place
+    };
+  }
+
+  /**
+   * 対象ツイート本文の「さらに表示」をクリック（他のツイートのリンクは遷移してしまうため対象外）
+   */
+  private async expandFocalShowMore(statusId: string): Promise<boolean> {
+    const links = await this.page.$$(`${THREAD_SELECTORS.tweet} ${TWEET_DETAIL_SELECTORS.showMoreLink}`);
+    let clicked = false;
+
+    for (const link of links) {
+      const isFocal = await link.evaluate((el, id) =>
+        !!el.closest('article')?.querySelector(`a[href*="/status/${id}"] time`), statusId);
+      if (!isFocal) continue;
+
+      await humanDelay(300, 800);
+      await link.click().catch(() => undefined);
+      clicked = true;
+      break;
+    }
+
+    await Promise.all(links.map(link => link.dispose()));
+    return clicked;
+  }
+
+  /**
+   * ツイートが取得できなかった理由をページ表示から判定
+   */
+  private async describeUnavailableTweet(): Promise<string> {
+    const pageText = await this.page.evaluate(() =>
+      (document.querySelector('[data-testid="primaryColumn"]')?.textContent || document.body.textContent || '').toLowerCase()
+    );
+    const matches = (texts: readonly string[]) => texts.some(text => pageText.includes(text.toLowerCase()));
+    const { unavailableTexts } = TWEET_DETAIL_SELECTORS;
+
+    if (matches(unavailableTexts.deleted)) return 'ポストは削除されています';
+    if (matches(unavailableTexts.protected)) return '非公開アカウントのポストのため表示できません';
+    if (matches(unavailableTexts.notFound)) return 'ポストが存在しないか、表示できません';
+    return 'ツイートを取得できませんでした。URLとログイン状態を確認してください。';
+  }
+
+  /**
+   * 現在のURLからカーソルのキー（アカウントのタブ・検索クエリ）を生成
+   */
+  private getCursorKey(url: string): string {
+    try {
+      const parsed = new URL(url);
+      if (parsed.pathname.startsWith('/search')) {
+        return `search:${parsed.searchParams.get('q') || ''}|${parsed.searchParams.get('f') || 'top'}`;
+      }
+
+      const timeline = this.detectTimeline(url);
+      const handle = parsed.pathname.split('/')[1]?.toLowerCase();
+      if (handle && timeline !== 'other' && timeline !== 'home' && timeline !== 'thread') {
+        return `user:${handle}:${timeline}`;
+      }
+      return `url:${parsed.pathname}`;
+    } catch {
+      return `url:${url}`;
+    }
+  }
+
+  /**
+   * 現在のURLから収集元のタイムラインを判定
+   */
+  private detectTimeline(url: string): TimelineSource {
+    let path: string;
+    try {
+      path = new URL(url).pathname;
+    } catch {
+      return 'other';
+    }
+
+    if (path === '/home') return 'home';
+    if (path.startsWith('/search')) return 'search';
+    if (/^\/[A-Za-z0-9_]+\/status\/\d+/.test(path)) return 'thread';
+
+    const match = path.match(/^\/[A-Za-z0-9_]+(\/[a-z_]+)?\/?$/);
+    if (!match) return 'other';
+
+    const tab = (Object.keys(PROFILE_TAB_PATHS) as ProfileTab[])
+      .find(key => PROFILE_TAB_PATHS[key] === (match[1] || ''));
+    return tab || 'other';
+  }
+
+  /**
+   * ツイートのエンティティ（メディア・リンク・引用など）を1行に要約
+   */
+  private formatEntitySummary(tweet: Tweet): string {
+    const parts: string[] = [];
+    if (tweet.media?.length) parts.push(`🖼️ ${tweet.media.map(m => m.type).join(',')}`);
+    if (tweet.urls?.length) parts.push(`🔗 ${tweet.urls.map(u => u.expandedUrl).join(' ')}`);
+    if (tweet.hashtags?.length) parts.push(tweet.hashtags.map(h => `#${h}`).join(' '));
+    if (tweet.mentions?.length) parts.push(tweet.mentions.map(m => `@${m}`).join(' '));
+    if (tweet.isPromoted) parts.push('📢広告');
+    if (tweet.isPinned) parts.push('📌固定');
+    if (tweet.isSensitive) parts.push('⚠️センシティブ');
+    if (tweet.isRetweet) parts.push(`🔁 @${tweet.repostedBy || '?'} がリポスト`);
+    if (tweet.poll) parts.push(`📊 ${tweet.poll.options.map(o => `${o.label}${o.percentage !== undefined ? ` ${o.percentage}%` : ''}`).join(' / ')}${tweet.poll.isClosed ? '（終了）' : ''}`);
+    if (tweet.card) parts.push(`🃏 ${tweet.card.title || tweet.card.domain || tweet.card.url}`);
+    if (tweet.communityNote) parts.push('📝 コミュニティノートあり');
+    if (tweet.quotedTweet) parts.push(`💬引用 @${tweet.quotedTweet.author}`);
+    else if (tweet.isQuote) parts.push('💬引用（引用元は表示不可）');
+    return parts.length > 0 ? `\n   ${parts.join(' | ')}` : '';
   }
 
   /**
    * ユーザープロフィール情報を取得
    */
   async getUserProfile(): Promise<MCPResponse> {
-    const profile = await this.page.evaluate(() => {
+    // 非公開アカウントでもプロフィール自体は表示される
+    const state = await this.assertPageState(['ok', 'protected']);
+
+    const raw = await this.page.evaluate((selectors: typeof PROFILE_SELECTORS) => {
       const getTextContent = (selector: string): string => {
         const element = document.querySelector(selector);
         return element?.textContent?.trim() || '';
       };
 
-      const getNumber = (text: string): number => {
-        const match = text.match(/[\d,]+/);
-        return match ? parseInt(match[0].replace(/,/g, '')) : 0;
-      };
-
       // プロフィール情報を取得
-      const displayName = getTextContent('[data-testid="UserName"] span');
-      const username = getTextContent('[data-testid="UserName"] [dir="ltr"]')?.replace('@', '');
-      const bio = getTextContent('[data-testid="UserDescription"]');
-      
-      // フォロワー等の数値情報
-      const followingElement = document.querySelector('a[href$="/following"] span');
-      const followersElement = document.querySelector('a[href$="/verified_followers"] span, a[href$="/followers"] span');
-      
-      const following = followingElement ? getNumber(followingElement.textContent || '') : 0;
-      const followers = followersElement ? getNumber(followersElement.textContent || '') : 0;
+      const displayName = getTextContent(selectors.userName);
+      const username = getTextContent(selectors.userHandle)?.replace('@', '');
+      const bio = getTextContent(selectors.userBio);
+
+      // 投稿数はヘッダーの「1.2万 件のポスト」「12.3K posts」表記から取得
+      const postCountPattern = /([\d.,]+\s*[KMBkmb万億]?)\s*(?:件の)?(?:posts?|ポスト|Tweets?|ツイート)/;
+      const postCountText = Array.from(document.querySelectorAll(selectors.postCountCandidates))
+        .map(el => el.textContent?.trim() || '')
+        .find(text => postCountPattern.test(text) && text.length < 40);
+
+      const websiteEl = document.querySelector(selectors.userUrl);
 
       return {
         username: username || '',
         displayName: displayName || '',
         bio: bio || '',
-        followers: followers,
-        following: following,
-        verified: !!document.querySelector('[data-testid="icon-verified"]'),
-        tweets: 0
+        // 数値は K/M/万 表記を含む生テキストで返し、Node側でparseEngagementにより解析
+        followersText: getTextContent(selectors.followersLink),
+        followingText: getTextContent(selectors.followingLink),
+        postCountText: postCountText?.match(postCountPattern)?.[1] || '',
+        verified: !!document.querySelector(selectors.verifiedIcon),
+        profileImageUrl: document.querySelector(selectors.avatarImage)?.getAttribute('src') || '',
+        bannerImageUrl: document.querySelector(selectors.bannerImage)?.getAttribute('src') || '',
+        location: getTextContent(selectors.userLocation),
+        website: websiteEl?.textContent?.trim() || '',
+        joinDateText: getTextContent(selectors.userJoinDate),
+        birthday: getTextContent(selectors.userBirthdate),
+        professionalCategory: getTextContent(selectors.userProfessionalCategory)
       };
-    });
+    }, PROFILE_SELECTORS);
+
+    const domProfile: UserProfile = {
+      username: raw.username,
+      displayName: raw.displayName,
+      bio: raw.bio,
+      followers: parseEngagement(raw.followersText),
+      following: parseEngagement(raw.followingText),
+      tweets: parseEngagement(raw.postCountText),
+      verified: raw.verified,
+      profileImageUrl: raw.profileImageUrl || undefined,
+      bannerImageUrl: raw.bannerImageUrl || undefined,
+      location: raw.location || undefined,
+      website: raw.website || undefined,
+      joinDate: raw.joinDateText ? parseJoinDate(raw.joinDateText) : undefined,
+      birthday: raw.birthday || undefined,
+      professionalCategory: raw.professionalCategory || undefined
+    };
+
+    // GraphQL（UserByScreenName）で取得できていれば正確な数値を優先
+    const exact = raw.username ? this.networkCapture.getUser(raw.username) : undefined;
+    const profile: UserProfile = exact
+      ? {
+          ...domProfile,
+          displayName: exact.displayName || domProfile.displayName,
+          bio: exact.bio || domProfile.bio,
+          followers: exact.followers,
+          following: exact.following,
+          tweets: exact.tweets,
+          verified: exact.verified || domProfile.verified,
+          profileImageUrl: exact.profileImageUrl ?? domProfile.profileImageUrl,
+          bannerImageUrl: exact.bannerImageUrl ?? domProfile.bannerImageUrl,
+          location: exact.location ?? domProfile.location,
+          website: exact.website ?? domProfile.website,
+          joinDate: exact.joinDate ?? domProfile.joinDate,
+          birthday: exact.birthday ?? domProfile.birthday,
+          professionalCategory: exact.professionalCategory ?? domProfile.professionalCategory
+        }
+      : domProfile;
 
     // プロフィールデータを保存
     this.lastCollectedProfile = profile;
@@ -212,18 +1204,206 @@ export class TwitterService {
               `認証済み: ${profile.verified ? '✅' : '❌'}\n` +
               `フォロワー: ${profile.followers.toLocaleString()}人\n` +
               `フォロー中: ${profile.following.toLocaleString()}人\n` +
-              `自己紹介: ${profile.bio}\n\n` +
+              `投稿数: ${profile.tweets.toLocaleString()}件\n` +
+              (profile.professionalCategory ? `カテゴリ: ${profile.professionalCategory}\n` : '') +
+              (profile.location ? `場所: ${profile.location}\n` : '') +
+              (profile.website ? `ウェブサイト: ${profile.website}\n` : '') +
+              (profile.joinDate ? `登録日: ${profile.joinDate}\n` : '') +
+              (profile.birthday ? `誕生日: ${profile.birthday}\n` : '') +
+              `自己紹介: ${profile.bio}\n` +
+              `${formatPageState(state)}\n\n` +
               `💡 export_profile_to_sheets でスプレッドシートに出力できます`
       }],
-      profile: profile
+      profile: profile,
+      pageState: state
+    };
+  }
+
+  /**
+   * フォロワー・フォロー中一覧を収集
+   */
+  async collectUserList(config: UserListConfig): Promise<MCPResponse> {
+    const { username, listType, maxUsers = 100, scrollDelay = 2500, readingTime = 1500 } = config;
+    const listLabels = {
+      followers: 'フォロワー',
+      verified_followers: '認証済みフォロワー',
+      following: 'フォロー中',
+      search_people: '検索結果のユーザー'
+    };
+
+    console.log(`🌐 @${username} の${listLabels[listType]}一覧に移動中...`);
+    const listUrl = `https://x.com/${username}/${listType}`;
+    const state = await this.gotoPage(listUrl);
+    if (state !== 'ok') {
+      throw new PageStateError(state, listUrl);
+    }
+
+    let users: UserListEntry[];
+    try {
+      users = await this.scrollUserCells(username, listType, maxUsers, scrollDelay, readingTime);
+    } catch (error) {
+      throw new Error(`${listLabels[listType]}一覧の収集に失敗しました: ${error}`);
+    }
+
+    this.lastCollectedUsers = users;
+
+    return {
+      content: [{
+        type: "text",
+        text: `👥 @${username} の${listLabels[listType]}を${users.length}人収集しました\n\n` +
+              users.slice(0, 10).map((user, index) =>
+                `${index + 1}. ${user.displayName} (@${user.username})` +
+                `${user.verified ? ' ✅' : ''}${user.followsYou ? ' 🔁フォローされています' : ''}` +
+                (user.bio ? `\n   ${user.bio.substring(0, 60)}` : '')
+              ).join('\n') +
+              `\n\n💡 export_users_to_sheets でスプレッドシートに出力できます`
+      }],
+      users
     };
   }
 
+  /**
+   * ユーザーセルが並ぶ一覧をスクロールしながら収集
+   */
+  private async scrollUserCells(
+    sourceUser: string,
+    listType: UserListType,
+    maxUsers: number,
+    scrollDelay: number,
+    readingTime: number
+  ): Promise<UserListEntry[]> {
+    const users: UserListEntry[] = [];
+    const seen = new Set<string>();
+    const maxScrolls = Math.ceil(maxUsers / 5) + 3;
+    let idleRounds = 0;
+
+    for (let i = 0; i < maxScrolls && users.length < maxUsers; i++) {
+      const cells = await this.extractUserCells();
+      const before = users.length;
+
+      for (const cell of cells) {
+        if (seen.has(cell.username) || users.length >= maxUsers) continue;
+        seen.add(cell.username);
+        users.push({ ...cell, sourceUser, listType });
+      }
+
+      console.log(`📜 スクロール ${i + 1}/${maxScrolls}: ${users.length}人`);
+
+      // 数回続けて新しいユーザーがいなければ一覧の終端とみなす（制限・エラー画面は終端と区別する）
+      idleRounds = users.length === before ? idleRounds + 1 : 0;
+      if (idleRounds > 0) await this.assertNotBlocked();
+      if (idleRounds >= 3) break;
+
+      await humanMouseMove(this.page);
+      await this.scrollPage();
+      await humanDelay(readingTime, readingTime + 1000);
+      await humanDelay(scrollDelay, scrollDelay + 1000);
+    }
+
+    return users;
+  }
+
+  /**
+   * 一覧ページからユーザーセルを抽出
+   */
+  private async extractUserCells(): Promise<Array<Omit<UserListEntry, 'sourceUser' | 'listType'>>> {
+    return this.page.evaluate((selectors: typeof USER_CELL_SELECTORS) => {
+      const results: Array<{
+        username: string;
+        displayName: string;
+        bio: string;
+        verified: boolean;
+        followsYou: boolean;
+        profileImageUrl?: string;
+      }> = [];
+
+      document.querySelectorAll(selectors.cell).forEach(cell => {
+        // プロフィールへのリンクからハンドルを取得
+        const handle = Array.from(cell.querySelectorAll(selectors.profileLink))
+          .map(link => (link.getAttribute('href') || '').match(/^\/([A-Za-z0-9_]+)$/)?.[1])
+          .find(Boolean);
+        if (!handle) return;
+
+        const textBlocks = Array.from(cell.querySelectorAll(selectors.textBlock))
+          .map(el => el.textContent?.trim() || '')
+          .filter(Boolean);
+        const displayName = textBlocks.find(text => !text.startsWith('@')) || handle;
+        // 名前・ハンドル・ボタン以外の最後のテキストブロックが自己紹介
+        const bio = textBlocks.length > 2 ? textBlocks[textBlocks.length - 1] : '';
+
+        results.push({
+          username: handle,
+          displayName,
+          bio: bio === displayName || bio.startsWith('@') ? '' : bio,
+          verified: !!cell.querySelector(selectors.verifiedIcon),
+          followsYou: !!cell.querySelector(selectors.followsYou),
+          profileImageUrl: cell.querySelector(selectors.avatarImage)?.getAttribute('src') || undefined
+        });
+      });
+
+      return results;
+    }, USER_CELL_SELECTORS);
+  }
+
+  /**
+   * 抽出方式に応じてツイートを取得
+   * network: GraphQLで取得済みのツイート（仮想スクロールで描画されないものも含む）を優先し、
+   *          DOMにしかないツイートを補完。GraphQLが取得できていなければDOMのみ。
+   */
+  private async extractTweetsWithMode(
+    mode: ExtractionMode,
+    includeUnrendered: boolean = true,
+    timeZone: string = getDefaultTimeZone()
+  ): Promise<Tweet[]> {
+    const domTweets = await this.extractTweets(timeZone);
+    if (mode === 'dom') return domTweets;
+
+    const captured = this.networkCapture.getTweets();
+    if (captured.length === 0) return domTweets;
+
+    // DOM側の値をGraphQLの正確な値で上書き（GraphQLで未取得の項目はDOMの値を残す）
+    // 固定・広告・警告表示はDOMでのみ判別できる場合があるため、どちらかで該当すれば該当とする
+    const merge = (dom: Tweet, exact: Tweet): Tweet => ({
+      ...dom,
+      ...Object.fromEntries(Object.entries(exact).filter(([, value]) => value !== undefined)),
+      isPinned: dom.isPinned || exact.isPinned,
+      isPromoted: dom.isPromoted || exact.isPromoted,
+      isSensitive: dom.isSensitive || exact.isSensitive,
+      timeline: dom.timeline
+    });
+
+    if (!includeUnrendered) {
+      return domTweets.map(tweet => {
+        const exact = this.networkCapture.getTweet(tweet.id);
+        return exact ? merge(tweet, exact) : tweet;
+      });
+    }
+
+    // タイムライン順（GraphQLの受信順）を基準に、DOMにしかないツイートを末尾に追加
+    const domById = new Map(domTweets.map(tweet => [tweet.id, tweet]));
+    const capturedIds = new Set(captured.map(tweet => tweet.id));
+    return [
+      ...captured.map(tweet => domById.has(tweet.id) ? merge(domById.get(tweet.id)!, tweet) : tweet),
+      ...domTweets.filter(tweet => !capturedIds.has(tweet.id))
+    ];
+  }
+
+  /**
+   * 抽出方式の説明（レスポンス表示用）
+   */
+  private describeExtraction(mode: ExtractionMode): string {
+    if (mode === 'dom') return 'DOM';
+    const responses = this.networkCapture.getResponseCount();
+    return responses > 0
+      ? `GraphQL（${responses}レスポンス、DOMで補完）`
+      : 'DOM（GraphQLレスポンスを取得できなかったためフォールバック）';
+  }
+
   /**
    * ページからツイートを抽出 - 2025年最新版
    */
-  private async extractTweets(): Promise<Tweet[]> {
-    return this.page.evaluate(() => {
+  private async extractTweets(timeZone: string = getDefaultTimeZone()): Promise<Tweet[]> {
+    const rawTweets = await this.page.evaluate((labels: typeof TWEET_LABEL_SELECTORS, cards: typeof TWEET_CARD_SELECTORS) => {
       console.log('🔍 ツイート抽出開始...');
 
       // 🔧 修正: 複数のセレクターパターンを試行
@@ -284,6 +1464,7 @@ export class TwitterService {
 
       const tweets: Array<{
         id: string;
+        permalink: string;
         text: string;
         timestamp: string;
         author: string;
@@ -291,13 +1472,37 @@ export class TwitterService {
         retweets: number;
         replies: number;
         isRetweet: boolean;
-        originalAuthor?: string;
+        repostedBy?: string;
+        isPinned: boolean;
+        isQuote: boolean;
+        isPromoted: boolean;
+        isSensitive: boolean;
+        media: Array<{ type: 'photo' | 'video' | 'gif'; url: string; altText?: string }>;
+        urls: Array<{ url: string; expandedUrl: string; displayUrl?: string }>;
+        hashtags: string[];
+        mentions: string[];
+        quotedTweet?: { id?: string; permalink?: string; author: string; text: string; timestamp?: string };
+        pollRaw?: { options: Array<{ label: string; percentText?: string }>; footerText: string };
+        card?: { title?: string; domain?: string; url: string; description?: string };
+        communityNote?: { text: string; status: 'shown' | 'unknown' };
+        engagementRaw: { groupLabel: string; buttonLabels: Record<string, string>; buttonTexts: Record<string, string> };
+        timeText?: string;
       }> = [];
 
       console.log(`📊 ${tweetElements?.length || 0}個の要素を処理中... (セレクター: ${workingSelector})`);
 
       tweetElements?.forEach((element: Element, index: number) => {
         try {
+          // 🆕 引用ツイートのコンテナ（2つ目のUser-Nameを含むrole="link"ブロック）
+          const findQuoteContainer = (el: Element): Element | null => {
+            const userNames = el.querySelectorAll('[data-testid="User-Name"]');
+            if (userNames.length < 2) return null;
+            return userNames[1].closest('div[role="link"]');
+          };
+
+          const quoteContainer = findQuoteContainer(element);
+          const isOutsideQuote = (node: Element): boolean => !quoteContainer || !quoteContainer.contains(node);
+
           // 🔧 修正: より柔軟なテキスト抽出
           const extractTweetText = (el: Element): string => {
             // 複数のパターンでテキストを探す
@@ -310,7 +1515,8 @@ export class TwitterService {
             ];
             
             for (const selector of textSelectors) {
-              const textEl = el.querySelector(selector);
+              // 引用ツイート内のテキストは本体として扱わない
+              const textEl = Array.from(el.querySelectorAll(selector)).find(isOutsideQuote);
               if (textEl?.textContent?.trim()) {
                 return textEl.textContent.trim();
               }
@@ -327,6 +1533,174 @@ export class TwitterService {
             return fullText;
           };
 
+          // 🔧 修正: ステータスリンクから実際のツイートIDとパーマリンクを抽出
+          const extractStatusLink = (el: Element): { id: string; author: string; permalink: string } | null => {
+            // 時刻要素を包むリンクが本体ツイートのパーマリンク（引用ツイートのリンクと区別するため優先）
+            const timeLink = el.querySelector('time')?.closest('a[href*="/status/"]');
+            const candidates = timeLink ? [timeLink] : Array.from(el.querySelectorAll('a[href*="/status/"]')).filter(isOutsideQuote);
+
+            for (const link of candidates) {
+              const href = link.getAttribute('href') || '';
+              const match = href.match(/^(?:https?:\/\/(?:x|twitter)\.com)?\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+              if (match) {
+                return {
+                  id: match[2],
+                  author: match[1],
+                  permalink: `https://x.com/${match[1]}/status/${match[2]}`
+                };
+              }
+            }
+            return null;
+          };
+
+          // 🆕 メディア（画像・動画・GIF）の抽出
+          const extractMedia = (el: Element) => {
+            const media: Array<{ type: 'photo' | 'video' | 'gif'; url: string; altText?: string }> = [];
+
+            el.querySelectorAll('[data-testid="tweetPhoto"] img').forEach(img => {
+              const src = img.getAttribute('src') || '';
+              if (!src || !isOutsideQuote(img)) return;
+              media.push({ type: 'photo', url: src, altText: img.getAttribute('alt') || undefined });
+            });
+
+            el.querySelectorAll('[data-testid="videoPlayer"]').forEach(player => {
+              if (!isOutsideQuote(player)) return;
+              const video = player.querySelector('video');
+              // 動画本体はblob: URLのためサムネイルを記録
+              const url = video?.getAttribute('poster') || video?.getAttribute('src') || '';
+              if (!url) return;
+              const isGif = /\bGIF\b/.test(player.textContent || '');
+              media.push({
+                type: isGif ? 'gif' : 'video',
+                url,
+                altText: video?.getAttribute('aria-label') || undefined
+              });
+            });
+
+            return media;
+          };
+
+          // 🆕 本文中のリンク・ハッシュタグ・メンションの抽出
+          const extractEntities = (textEl: Element | null) => {
+            const urls: Array<{ url: string; expandedUrl: string; displayUrl?: string }> = [];
+            const hashtags: string[] = [];
+            const mentions: string[] = [];
+            if (!textEl) return { urls, hashtags, mentions };
+
+            textEl.querySelectorAll('a[href]').forEach(link => {
+              const href = link.getAttribute('href') || '';
+              const linkText = link.textContent?.trim() || '';
+
+              if (href.startsWith('/hashtag/')) {
+                hashtags.push(linkText.replace(/^[#＃]/, ''));
+              } else if (href.startsWith('/') && linkText.startsWith('@')) {
+                mentions.push(linkText.slice(1));
+              } else if (/^https?:\/\//.test(href)) {
+                // 非表示spanに完全なURLが含まれているため、textContentから展開URLを復元
+                const expandedUrl = linkText.replace(/…$/, '');
+                const visibleText = Array.from(link.childNodes)
+                  .filter(node => node.nodeType === Node.TEXT_NODE || !(node as Element).getAttribute?.('aria-hidden'))
+                  .map(node => node.textContent || '')
+                  .join('')
+                  .trim();
+                urls.push({
+                  url: href,
+                  expandedUrl: /^https?:\/\//.test(expandedUrl) ? expandedUrl : href,
+                  displayUrl: visibleText || undefined
+                });
+              }
+            });
+
+            return { urls, hashtags, mentions };
+          };
+
+          // 🆕 アンケート（得票率・総投票数はNode側で数値化）
+          const extractPollRaw = (el: Element) => {
+            const poll = Array.from(el.querySelectorAll(cards.poll)).find(isOutsideQuote);
+            if (!poll) return undefined;
+
+            const percentSpans = Array.from(poll.querySelectorAll('span'))
+              .filter(span => /^\d+(\.\d+)?\s*%$/.test(span.textContent?.trim() || ''));
+            let options: Array<{ label: string; percentText?: string }>;
+
+            if (percentSpans.length > 0) {
+              // 結果表示: 得票率を含む行から選択肢名を取り出す
+              options = percentSpans.map(span => {
+                const percentText = span.textContent?.trim() || '';
+                let row: Element = span;
+                while (row.parentElement && row.parentElement !== poll && (row.textContent?.trim() || '') === percentText) {
+                  row = row.parentElement;
+                }
+                return { label: (row.textContent || '').replace(percentText, '').trim(), percentText };
+              });
+            } else {
+              // 投票前: 選択肢ボタンのみ
+              options = Array.from(poll.querySelectorAll(cards.pollChoice))
+                .map(choice => ({ label: choice.textContent?.trim() || '' }))
+                .filter(option => option.label);
+            }
+
+            const optionTexts = options.map(option => `${option.label}${option.percentText || ''}`);
+            const footerText = Array.from(poll.querySelectorAll('span'))
+              .map(span => span.textContent?.trim() || '')
+              .filter(text => text && !optionTexts.some(option => option.includes(text)))
+              .join(' · ');
+
+            return { options, footerText };
+          };
+
+          // 🆕 リンクカード
+          const extractCard = (el: Element) => {
+            const wrapper = Array.from(el.querySelectorAll(cards.cardWrapper)).find(isOutsideQuote);
+            const link = wrapper?.querySelector(cards.cardLink);
+            // アンケートも card.wrapper 内に描画されるため除外
+            if (!wrapper || !link || wrapper.querySelector(cards.poll)) return undefined;
+
+            const detailTexts = Array.from(wrapper.querySelectorAll(`${cards.cardDetail} span`))
+              .map(span => span.textContent?.trim() || '')
+              .filter(Boolean);
+            const ariaParts = (link.getAttribute('aria-label') || '').split(/\s+/).filter(Boolean);
+
+            return {
+              // 大きいカードは aria-label が「ドメイン タイトル」、小さいカードは詳細欄が「ドメイン・タイトル・説明」
+              domain: detailTexts[0] || ariaParts[0] || undefined,
+              title: detailTexts[1] || ariaParts.slice(1).join(' ') || undefined,
+              description: detailTexts[2] || undefined,
+              url: link.getAttribute('href') || ''
+            };
+          };
+
+          // 🆕 コミュニティノート
+          const extractCommunityNote = (el: Element) => {
+            const note = Array.from(el.querySelectorAll(cards.communityNote)).find(isOutsideQuote);
+            if (!note) return undefined;
+
+            // 見出し（「読者が背景情報を追加しました」等）を除いた本文
+            const spans = Array.from(note.querySelectorAll('span')).map(span => span.textContent?.trim() || '').filter(Boolean);
+            const heading = spans[0] || '';
+            const text = (note.textContent || '').replace(heading, '').trim();
+            return { text: text || heading, status: heading ? 'shown' as const : 'unknown' as const };
+          };
+
+          // 🆕 引用ツイートの抽出
+          const extractQuotedTweet = () => {
+            if (!quoteContainer) return undefined;
+
+            const handleEl = Array.from(quoteContainer.querySelectorAll('[data-testid="User-Name"] span'))
+              .find(span => span.textContent?.trim().startsWith('@'));
+            const quoteLink = quoteContainer.querySelector('a[href*="/status/"]');
+            const match = (quoteLink?.getAttribute('href') || '').match(/^\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+            const author = match ? match[1] : (handleEl?.textContent?.trim().slice(1) || '');
+
+            return {
+              id: match ? match[2] : undefined,
+              permalink: match ? `https://x.com/${match[1]}/status/${match[2]}` : undefined,
+              author,
+              text: quoteContainer.querySelector('[data-testid="tweetText"]')?.textContent?.trim() || '',
+              timestamp: quoteContainer.querySelector('time')?.getAttribute('datetime') || undefined
+            };
+          };
+
           // 🔧 修正: より柔軟な時刻抽出
           const extractTimestamp = (el: Element): string => {
             const timeEl = el.querySelector('time');
@@ -365,77 +1739,120 @@ export class TwitterService {
             return userMatch ? userMatch[1] : `user_${index}`;
           };
 
-          // 🔧 修正: エンゲージメント数の抽出
-          const extractEngagement = (el: Element, type: 'like' | 'retweet' | 'reply'): number => {
+          // 🔧 修正: エンゲージメント数の抽出（数値化はNode側のロケール対応パーサーで行う）
+          const extractEngagementRaw = (el: Element) => {
             const testIds = {
-              like: ['like', 'favorite'],
+              like: ['like', 'unlike', 'favorite'],
               retweet: ['retweet', 'unretweet'],
               reply: ['reply']
             };
-            
-            for (const testId of testIds[type]) {
-              const engagementEl = el.querySelector(`[data-testid="${testId}"] span`);
-              if (engagementEl?.textContent) {
-                const num = parseEngagement(engagementEl.textContent);
-                if (num > 0) return num;
+            const buttonLabels: Record<string, string> = {};
+            const buttonTexts: Record<string, string> = {};
+
+            (Object.keys(testIds) as Array<keyof typeof testIds>).forEach(type => {
+              for (const testId of testIds[type]) {
+                const button = Array.from(el.querySelectorAll(`[data-testid="${testId}"]`)).find(isOutsideQuote);
+                if (!button) continue;
+                buttonLabels[type] = button.getAttribute('aria-label') || '';
+                buttonTexts[type] = button.querySelector('span')?.textContent?.trim() || '';
+                break;
               }
-            }
-            
-            // フォールバック: テキストから数字を抽出
-            const text = el.textContent || '';
-            const numbers = text.match(/\d+/g);
-            return numbers ? parseInt(numbers[0]) : 0;
+            });
+
+            // 「12 件の返信、3 件のリポスト、45 件のいいね、1234 件の表示」形式のまとめラベル
+            const group = Array.from(el.querySelectorAll('[role="group"][aria-label]')).find(isOutsideQuote);
+
+            return {
+              groupLabel: group?.getAttribute('aria-label') || '',
+              buttonLabels,
+              buttonTexts
+            };
           };
 
-          // parseEngagement関数の定義（ページ内で実行されるため再定義が必要）
-          const parseEngagement = (text: string): number => {
-            if (!text || typeof text !== 'string') return 0;
-            
-            const cleanText = text.replace(/[^\d.,KMBkmb]/gi, '');
-            const match = cleanText.match(/([\d,]+\.?\d*)\s*([KMBkmb]?)/i);
-            
-            if (!match) {
-              const numMatch = text.match(/\d+/);
-              return numMatch ? parseInt(numMatch[0]) : 0;
-            }
-            
-            let num = parseFloat(match[1].replace(/,/g, ''));
-            const suffix = match[2].toUpperCase();
-            
-            if (suffix === 'K') num *= 1000;
-            else if (suffix === 'M') num *= 1000000;
-            else if (suffix === 'B') num *= 1000000000;
-            
-            return Math.floor(num);
+          // 🆕 ソーシャルコンテキスト（「○○さんがリポストしました」「固定」など）の判別
+          // リンクのhrefはリポストしたユーザー、テキストは表示名のため author には使わない
+          const extractSocialContext = (el: Element) => {
+            const contextEl = el.querySelector('[data-testid="socialContext"]');
+            const contextText = contextEl?.textContent?.trim() || '';
+            const isPinned = /^(Pinned|固定)/.test(contextText) || contextText.includes('固定されたポスト');
+            const isRepost = !isPinned && /(reposted|retweeted|リポスト|リツイート)/i.test(contextText);
+            const href = contextEl?.closest('a')?.getAttribute('href') || contextEl?.querySelector('a')?.getAttribute('href') || '';
+            const handle = href.match(/^\/([A-Za-z0-9_]+)\/?$/);
+
+            return {
+              isPinned,
+              isRepost,
+              repostedBy: isRepost && handle ? handle[1] : undefined
+            };
+          };
+
+          // 🆕 広告ラベル・センシティブ警告の判別（本文中の同じ語と区別するため本文外の要素のみ）
+          const extractContentLabels = (el: Element) => {
+            const labelTexts = Array.from(el.querySelectorAll('span'))
+              .filter(span => isOutsideQuote(span) && !span.closest(labels.tweetText))
+              .map(span => span.textContent?.trim() || '');
+            const isPromoted = labelTexts.some(label => (labels.promotedTexts as readonly string[]).includes(label));
+            const isSensitive = labelTexts.some(label =>
+              labels.sensitiveWarningTexts.some(warning => label.toLowerCase().includes(warning.toLowerCase()))
+            );
+            return { isPromoted, isSensitive };
           };
 
+          const statusLink = extractStatusLink(element);
           const text = extractTweetText(element);
           const timestamp = extractTimestamp(element);
-          const author = extractAuthor(element);
+          const author = statusLink?.author || extractAuthor(element);
+          const contentLabels = extractContentLabels(element);
 
-          // 空のツイートや短すぎるものは除外
-          if (!text || text.length < 5) {
-            console.log(`⏭️ ツイート${index + 1}: テキストが短すぎるためスキップ`);
+          // IDが取れない要素は重複排除・突合ができないため除外
+          if (!statusLink) {
+            console.log(`⏭️ ツイート${index + 1}: ステータスIDが見つからないためスキップ${contentLabels.isPromoted ? '（広告）' : ''}`);
             return;
           }
 
-          const likes = extractEngagement(element, 'like');
-          const retweets = extractEngagement(element, 'retweet');
-          const replies = extractEngagement(element, 'reply');
+          // 本文が短い・ない場合も、画像のみ・引用のみ・リンクカードのみのツイートや「ok」のような短い返信は残す
+          const media = extractMedia(element);
+          const quotedTweet = extractQuotedTweet();
+          const card = extractCard(element);
+          if (!text && media.length === 0 && !quotedTweet && !card) {
+            console.log(`⏭️ ツイート${index + 1}: 本文・メディア・引用がないためスキップ`);
+            return;
+          }
+
+          const engagementRaw = extractEngagementRaw(element);
+          const socialContext = extractSocialContext(element);
+
+          const mainTextEl = Array.from(element.querySelectorAll('[data-testid="tweetText"]')).find(isOutsideQuote) || null;
+          const entities = extractEntities(mainTextEl);
 
           tweets.push({
-            id: `tweet_${Date.now()}_${index}`,
+            id: statusLink.id,
+            permalink: statusLink.permalink,
             text: text,
             timestamp: timestamp,
             author: author,
-            likes: likes,
-            retweets: retweets,
-            replies: replies,
-            isRetweet: !!element.querySelector('[data-testid="socialContext"]'),
-            originalAuthor: element.querySelector('[data-testid="socialContext"] a')?.textContent || undefined
+            likes: 0,
+            retweets: 0,
+            replies: 0,
+            engagementRaw,
+            timeText: element.querySelector('time')?.textContent?.trim() || undefined,
+            isRetweet: socialContext.isRepost,
+            repostedBy: socialContext.repostedBy,
+            isPinned: socialContext.isPinned,
+            isQuote: !!quoteContainer,
+            isPromoted: contentLabels.isPromoted,
+            isSensitive: contentLabels.isSensitive,
+            media,
+            urls: entities.urls,
+            hashtags: entities.hashtags,
+            mentions: entities.mentions,
+            quotedTweet,
+            pollRaw: extractPollRaw(element),
+            card,
+            communityNote: extractCommunityNote(element)
           });
 
-          console.log(`✅ ツイート${index + 1}: @${author} - ${text.substring(0, 50)}... (👍${likes} 🔄${retweets} 💬${replies})`);
+          console.log(`✅ ツイート${index + 1}: @${author} - ${text.substring(0, 50)}...`);
           
         } catch (error) {
           console.error(`❌ ツイート${index + 1}の抽出エラー:`, error);
@@ -444,7 +1861,51 @@ export class TwitterService {
 
       console.log(`📊 抽出完了: ${tweets.length}件のツイートを取得しました`);
       return tweets;
-    }) as Promise<Tweet[]>;
+    }, TWEET_LABEL_SELECTORS, TWEET_CARD_SELECTORS);
+
+    // 件数・タイムスタンプをロケール対応パーサーで正規化
+    return rawTweets.map(({ engagementRaw, timeText, pollRaw, ...tweet }) => {
+      const counts = {
+        ...parseEngagementLabel(engagementRaw.buttonLabels.reply || ''),
+        ...parseEngagementLabel(engagementRaw.buttonLabels.retweet || ''),
+        ...parseEngagementLabel(engagementRaw.buttonLabels.like || ''),
+        ...parseEngagementLabel(engagementRaw.groupLabel)
+      };
+      const fromText = (type: string) => parseCount(engagementRaw.buttonTexts[type] || '');
+
+      return {
+        ...tweet,
+        likes: counts.likes ?? fromText('like'),
+        retweets: counts.retweets ?? fromText('retweet'),
+        replies: counts.replies ?? fromText('reply'),
+        bookmarks: counts.bookmarks,
+        views: counts.views,
+        timestamp: normalizeTimestamp(tweet.timestamp || timeText || '', { timeZone }),
+        poll: pollRaw ? this.parsePollRaw(pollRaw) : undefined
+      };
+    });
+  }
+
+  /**
+   * DOMから取得したアンケートの生テキストを数値化
+   * 例: footerText "1,234 votes · Final results" / "1,234票・残り6時間"
+   */
+  private parsePollRaw(raw: { options: Array<{ label: string; percentText?: string }>; footerText: string }): TweetPoll {
+    const votesMatch = raw.footerText.match(/([\d.,]+\s*[KMBkmb万億]?)\s*(votes?|票)/i);
+    const totalVotes = votesMatch ? parseCount(votesMatch[1]) : undefined;
+
+    return {
+      options: raw.options.map(option => {
+        const percentage = option.percentText ? parseFloat(option.percentText) : undefined;
+        return {
+          label: option.label,
+          percentage,
+          votes: percentage !== undefined && totalVotes !== undefined ? Math.round(totalVotes * percentage / 100) : undefined
+        };
+      }),
+      totalVotes,
+      isClosed: TWEET_CARD_SELECTORS.pollClosedTexts.some(text => raw.footerText.includes(text))
+    };
   }
 
   /**
@@ -519,4 +1980,11 @@ export class TwitterService {
   getLastCollectedProfile(): UserProfile | null {
     return this.lastCollectedProfile;
   }
+
+  /**
+   * 最後に収集したユーザー一覧を取得
+   */
+  getLastCollectedUsers(): UserListEntry[] {
+    return this.lastCollectedUsers;
+  }
 }
\ No newline at end of file
@@ -1,16 +1,34 @@
 // src/tools/handlers/browser-handler.ts
 // ブラウザ関連ツールの専用ハンドラー
 
-import { BrowserService } from '../../services/browser.js';
+import { Page } from 'puppeteer';
+import { BrowserService, DEFAULT_TAB_ID } from '../../services/browser.js';
 import { TwitterService } from '../../services/twitter.js';
-import { MCPResponse } from '../../types/interfaces.js';
+import { SessionStore, getSessionPassphrase } from '../../services/session-store.js';
+import { CursorStore } from '../../services/cursor-store.js';
+import { formatBudgetStatus } from '../../services/request-budget.js';
+import { formatPageState } from '../../services/page-state.js';
+import { MCPResponse, BrowserTabInfo, ScreenshotOptions, RequestBudgetLimits, PageState } from '../../types/interfaces.js';
+import { normalizeNavigationUrl } from '../../utils/domain-allowlist.js';
+import { toolOutputSchema, arrayOf, SESSION_SCHEMA, PAGE_SNAPSHOT_SCHEMA, TAB_SCHEMA } from '../output-schemas.js';
 
 export class BrowserToolHandler {
   private browserService: BrowserService;
-  private twitterService: TwitterService | null = null;
+  // タブごとのTwitterService（収集状態はタブ単位で独立）
+  private twitterServices = new Map<string, TwitterService>();
+  private sessionStore = new SessionStore();
+  // カーソルファイルは全タブで1つのため、更新を直列化できるよう共有する
+  private cursorStore = new CursorStore();
 
   constructor(browserService: BrowserService) {
     this.browserService = browserService;
+
+    // クラッシュ復旧でページが作り直されたタブは、既存のTwitterServiceを新しいページに付け替え
+    this.browserService.onTabRecovered((tabId, page) => {
+      const service = this.twitterServices.get(tabId);
+      if (service) service.attachPage(page);
+      else this.twitterServices.set(tabId, this.createTwitterService(page));
+    });
   }
 
   /**
@@ -38,23 +56,271 @@ export class BrowserToolHandler {
               type: "number",
               description: "ブラウザ高さ",
               default: 768
+            },
+            profile: {
+              type: "string",
+              description: "永続プロファイル名（指定するとログイン状態が再起動後も保持されます。未指定時は使い捨てプロファイル）"
+            },
+            budgetPerMinute: {
+              type: "number",
+              description: "1分あたりのページ読み込み・スクロール回数の上限",
+              default: 30
+            },
+            budgetPerHour: {
+              type: "number",
+              description: "1時間あたりの上限",
+              default: 600
+            },
+            budgetPerDay: {
+              type: "number",
+              description: "1日あたりの上限",
+              default: 5000
+            }
+          }
+        },
+        outputSchema: toolOutputSchema()
+      },
+      {
+        name: "set_request_budget",
+        description: "ページ読み込み・スクロールのリクエスト予算（分・時・日ごとの上限）を変更し、残りとクールダウン状態を表示します（引数なしで確認のみ）",
+        inputSchema: {
+          type: "object",
+          properties: {
+            perMinute: {
+              type: "number",
+              description: "1分あたりの上限"
+            },
+            perHour: {
+              type: "number",
+              description: "1時間あたりの上限"
+            },
+            perDay: {
+              type: "number",
+              description: "1日あたりの上限"
+            }
+          }
+        },
+        outputSchema: toolOutputSchema({}, ["budget"])
+      },
+      {
+        name: "export_session",
+        description: "現在のXのログインセッション（Cookie・localStorage）を暗号化してローカルファイルに保存します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "セッション名（英数字・ハイフン・アンダースコア。~/.x-collector/sessions/<name>.session に保存）",
+              default: "default"
+            },
+            passphrase: {
+              type: "string",
+              description: "暗号化パスフレーズ（未指定時は環境変数 X_COLLECTOR_SESSION_KEY）"
+            },
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
             }
           }
         },
+        outputSchema: toolOutputSchema({ session: SESSION_SCHEMA }, ["session"])
+      },
+      {
+        name: "import_session",
+        description: "export_sessionで保存したセッションを復号してブラウザに復元します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "セッション名",
+              default: "default"
+            },
+            passphrase: {
+              type: "string",
+              description: "復号パスフレーズ（未指定時は環境変数 X_COLLECTOR_SESSION_KEY）"
+            },
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
+            }
+          }
+        },
+        outputSchema: toolOutputSchema({ session: SESSION_SCHEMA }, ["session"])
       },
       {
         name: "take_screenshot",
-        description: "現在のページのスクリーンショットを撮影",
+        description: "現在のページのスクリーンショットを撮影し、画像として返します（ツイート単位・要素単位の切り出し、ファイル保存に対応）",
         inputSchema: {
           type: "object",
           properties: {
             filename: {
               type: "string",
-              description: "保存ファイル名",
-              default: "x_screenshot.png"
+              description: "保存ファイル名（指定時は出力ディレクトリ X_COLLECTOR_SCREENSHOT_DIR に保存）"
+            },
+            save: {
+              type: "boolean",
+              description: "ファイル名を指定せずに保存する（自動命名）",
+              default: false
+            },
+            tweetId: {
+              type: "string",
+              description: "このステータスIDのツイートのみを撮影"
+            },
+            selector: {
+              type: "string",
+              description: "このCSSセレクタに一致する要素のみを撮影"
+            },
+            fullPage: {
+              type: "boolean",
+              description: "ページ全体を撮影する（false の場合は表示領域のみ）",
+              default: false
+            },
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
+            }
+          }
+        },
+        outputSchema: toolOutputSchema({ savedPath: { type: "string" } })
+      },
+      {
+        name: "navigate_to_url",
+        description: "指定したXのページ（リスト・コミュニティ・話題を検索・個別ツイート等）に移動します。移動先は許可ドメイン（既定: x.com / twitter.com）に限られます",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "移動先URL（\"/explore\" のようなパスも可）"
+            },
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
+            }
+          },
+          required: ["url"]
+        },
+        outputSchema: toolOutputSchema({}, ["pageState"])
+      },
+      {
+        name: "go_back",
+        description: "ブラウザの履歴を1つ戻ります",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
+            }
+          }
+        },
+        outputSchema: toolOutputSchema()
+      },
+      {
+        name: "reload",
+        description: "現在のページを再読み込みします",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
+            }
+          }
+        },
+        outputSchema: toolOutputSchema({}, ["pageState"])
+      },
+      {
+        name: "read_page",
+        description: "現在のページのメインカラムに表示されているテキストとリンクを読み取ります",
+        inputSchema: {
+          type: "object",
+          properties: {
+            maxChars: {
+              type: "number",
+              description: "本文の最大文字数",
+              default: 4000
+            },
+            maxLinks: {
+              type: "number",
+              description: "リンクの最大件数",
+              default: 50
+            },
+            tabId: {
+              type: "string",
+              description: "対象のタブID（未指定時はアクティブなタブ）"
+            }
+          }
+        },
+        outputSchema: toolOutputSchema({ page: PAGE_SNAPSHOT_SCHEMA }, ["page"])
+      },
+      {
+        name: "open_tab",
+        description: "新しいタブを開きます。isolated を指定するとCookieを共有しない別セッションになり、別アカウントでログインできます",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tabId: {
+              type: "string",
+              description: "タブID（未指定時は tab-2, tab-3 ... を自動採番）"
+            },
+            url: {
+              type: "string",
+              description: "開くURL（オプション。\"/explore\" のようなパスも可。許可ドメインのみ）"
+            },
+            isolated: {
+              type: "boolean",
+              description: "ログイン状態を共有しない分離セッションで開く",
+              default: false
+            },
+            activate: {
+              type: "boolean",
+              description: "開いたタブをアクティブにする",
+              default: true
             }
           }
         },
+        outputSchema: toolOutputSchema({ tabs: arrayOf(TAB_SCHEMA) }, ["tabs"])
+      },
+      {
+        name: "list_tabs",
+        description: "開いているタブの一覧（ID・URL・アクティブ状態）を表示します",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        },
+        outputSchema: toolOutputSchema({ tabs: arrayOf(TAB_SCHEMA) }, ["tabs"])
+      },
+      {
+        name: "switch_tab",
+        description: "アクティブなタブを切り替えます（tabId未指定のツールはアクティブなタブを操作します）",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tabId: {
+              type: "string",
+              description: "切り替え先のタブID"
+            }
+          },
+          required: ["tabId"]
+        },
+        outputSchema: toolOutputSchema({ tabs: arrayOf(TAB_SCHEMA) }, ["tabs"])
+      },
+      {
+        name: "close_tab",
+        description: "タブを閉じ、そのタブの収集データを破棄します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tabId: {
+              type: "string",
+              description: "閉じるタブのID"
+            }
+          },
+          required: ["tabId"]
+        },
+        outputSchema: toolOutputSchema({ tabs: arrayOf(TAB_SCHEMA) }, ["tabs"])
       },
       {
         name: "close_browser",
@@ -63,6 +329,7 @@ export class BrowserToolHandler {
           type: "object",
           properties: {}
         },
+        outputSchema: toolOutputSchema()
       }
     ];
   }
@@ -76,11 +343,74 @@ export class BrowserToolHandler {
         return await this.handleStartBrowser(
           args?.slowMo as number | undefined,
           args?.viewportWidth as number | undefined,
-          args?.viewportHeight as number | undefined
+          args?.viewportHeight as number | undefined,
+          args?.profile as string | undefined,
+          {
+            perMinute: args?.budgetPerMinute as number | undefined,
+            perHour: args?.budgetPerHour as number | undefined,
+            perDay: args?.budgetPerDay as number | undefined
+          }
+        );
+
+      case "set_request_budget":
+        return this.handleSetRequestBudget({
+          perMinute: args?.perMinute as number | undefined,
+          perHour: args?.perHour as number | undefined,
+          perDay: args?.perDay as number | undefined
+        });
+
+      case "export_session":
+        return await this.handleExportSession(
+          args?.name as string | undefined,
+          args?.passphrase as string | undefined,
+          args?.tabId as string | undefined
+        );
+
+      case "import_session":
+        return await this.handleImportSession(
+          args?.name as string | undefined,
+          args?.passphrase as string | undefined,
+          args?.tabId as string | undefined
         );
       
       case "take_screenshot":
-        return await this.handleTakeScreenshot(args?.filename as string | undefined);
+        return await this.handleTakeScreenshot((args || {}) as ScreenshotOptions);
+
+      case "navigate_to_url":
+        return await this.handleNavigateToUrl(
+          args?.url as string,
+          args?.tabId as string | undefined
+        );
+
+      case "go_back":
+        return await this.handleGoBack(args?.tabId as string | undefined);
+
+      case "reload":
+        return await this.handleReload(args?.tabId as string | undefined);
+
+      case "read_page":
+        return await this.handleReadPage(
+          args?.maxChars as number | undefined,
+          args?.maxLinks as number | undefined,
+          args?.tabId as string | undefined
+        );
+
+      case "open_tab":
+        return await this.handleOpenTab(
+          args?.tabId as string | undefined,
+          args?.url as string | undefined,
+          args?.isolated as boolean | undefined,
+          args?.activate as boolean | undefined
+        );
+
+      case "list_tabs":
+        return await this.handleListTabs();
+
+      case "switch_tab":
+        return await this.handleSwitchTab(args?.tabId as string);
+
+      case "close_tab":
+        return await this.handleCloseTab(args?.tabId as string);
       
       case "close_browser":
         return await this.handleCloseBrowser();
@@ -97,38 +427,228 @@ export class BrowserToolHandler {
   private async handleStartBrowser(
     slowMo: number = 200,
     width: number = 1366,
-    height: number = 768
+    height: number = 768,
+    profile?: string,
+    budget: Partial<RequestBudgetLimits> = {}
   ): Promise<MCPResponse> {
     const result = await this.browserService.startBrowser({
       slowMo,
       viewportWidth: width,
-      viewportHeight: height
+      viewportHeight: height,
+      profile,
+      budget
     });
 
-    // TwitterServiceを初期化
-    const page = this.browserService.getCurrentPage();
-    if (page) {
-      this.twitterService = new TwitterService(page);
-    }
+    // 最初のタブのTwitterServiceを初期化
+    this.twitterServices.clear();
+    this.twitterServices.set(DEFAULT_TAB_ID, this.createTwitterService(this.browserService.getPage(DEFAULT_TAB_ID)));
 
     return result;
   }
 
-  private async handleTakeScreenshot(filename?: string): Promise<MCPResponse> {
-    return await this.browserService.takeScreenshot(filename);
+  private handleSetRequestBudget(limits: Partial<RequestBudgetLimits>): MCPResponse {
+    const budget = this.browserService.getBudget();
+    const changed = Object.values(limits).some(value => value !== undefined);
+    if (changed) budget.setLimits(limits);
+
+    const status = budget.getStatus();
+    return {
+      content: [{
+        type: "text",
+        text: `${changed ? '✅ リクエスト予算を変更しました' : '📋 リクエスト予算の状態'}\n${formatBudgetStatus(status)}`
+      }],
+      budget: status
+    };
+  }
+
+  private async handleExportSession(name: string = 'default', passphrase?: string, tabId?: string): Promise<MCPResponse> {
+    const page = this.browserService.getPage(tabId);
+
+    const result = await this.sessionStore.exportSession(page, name, getSessionPassphrase(passphrase));
+    return {
+      content: [{
+        type: "text",
+        text: `💾 セッションを保存しました: ${result.filePath}\n` +
+              `🍪 Cookie ${result.cookieCount}件 / localStorage ${result.localStorageCount}件（AES-256-GCMで暗号化）`
+      }],
+      session: result
+    };
+  }
+
+  private async handleImportSession(name: string = 'default', passphrase?: string, tabId?: string): Promise<MCPResponse> {
+    const page = this.browserService.getPage(tabId);
+
+    const result = await this.sessionStore.importSession(page, name, getSessionPassphrase(passphrase));
+    return {
+      content: [{
+        type: "text",
+        text: `📥 セッションを復元しました: ${result.filePath}（保存日時: ${result.exportedAt}）\n` +
+              `🍪 Cookie ${result.cookieCount}件 / localStorage ${result.localStorageCount}件\n` +
+              `💡 check_login_status でログイン状態を確認してください`
+      }],
+      session: result
+    };
+  }
+
+  private async handleTakeScreenshot(options: ScreenshotOptions): Promise<MCPResponse> {
+    return await this.browserService.takeScreenshot(options);
+  }
+
+  private async handleNavigateToUrl(url: string, tabId?: string): Promise<MCPResponse> {
+    if (!url) {
+      throw new Error("url を指定してください。");
+    }
+
+    const state = await this.browserService.navigateToUrl(normalizeNavigationUrl(url), tabId);
+    return await this.describeCurrentPage('🧭 ページに移動しました', state, tabId);
+  }
+
+  private async handleGoBack(tabId?: string): Promise<MCPResponse> {
+    const state = await this.browserService.goBack(tabId);
+    if (!state) {
+      return {
+        content: [{
+          type: "text",
+          text: "↩️ 戻れる履歴がありません。"
+        }]
+      };
+    }
+    return await this.describeCurrentPage('↩️ 前のページに戻りました', state, tabId);
+  }
+
+  private async handleReload(tabId?: string): Promise<MCPResponse> {
+    const state = await this.browserService.reload(tabId);
+    return await this.describeCurrentPage('🔄 ページを再読み込みしました', state, tabId);
+  }
+
+  private async handleReadPage(maxChars: number = 4000, maxLinks: number = 50, tabId?: string): Promise<MCPResponse> {
+    const snapshot = await this.browserService.readPage(tabId, maxChars, maxLinks);
+    const origin = this.getOrigin(snapshot.url);
+
+    // 同一オリジンのリンクはパスのみに短縮
+    const linkLines = snapshot.links.map(link => {
+      const target = origin && link.url.startsWith(origin) ? link.url.slice(origin.length) || '/' : link.url;
+      return `- ${link.text ? `${link.text} → ` : ''}${target}`;
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: `📄 ${snapshot.title || '(無題)'}\n🔗 ${snapshot.url}\n\n` +
+              `${snapshot.text || '(表示されているテキストはありません)'}` +
+              (snapshot.truncated ? `\n…（${maxChars}文字で省略）` : '') +
+              `\n\n🔗 リンク（${snapshot.links.length}件）\n` +
+              (linkLines.length > 0 ? linkLines.join('\n') : '(なし)')
+      }],
+      page: snapshot
+    };
+  }
+
+  private async describeCurrentPage(heading: string, state: PageState, tabId?: string): Promise<MCPResponse> {
+    const page = this.browserService.getPage(tabId);
+    const title = await page.title().catch(() => '');
+    return {
+      content: [{
+        type: "text",
+        text: `${heading}\n📄 ${title || '(無題)'}\n🔗 ${page.url()}\n${formatPageState(state)}` +
+              (state === 'ok' ? `\n💡 read_page で内容を読み取れます` : '')
+      }],
+      pageState: state
+    };
+  }
+
+  private getOrigin(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return '';
+    }
+  }
+
+  private async handleOpenTab(
+    tabId?: string,
+    url?: string,
+    isolated: boolean = false,
+    activate: boolean = true
+  ): Promise<MCPResponse> {
+    const tab = await this.browserService.openTab(tabId, { url, isolated });
+    this.twitterServices.set(tab.tabId, this.createTwitterService(this.browserService.getPage(tab.tabId)));
+
+    if (activate) {
+      await this.browserService.switchTab(tab.tabId);
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `🗂️ タブ「${tab.tabId}」を開きました${isolated ? '（分離セッション: 別アカウントでログインできます）' : ''}\n` +
+              `🔗 ${tab.url}\n` +
+              (activate ? `👉 アクティブなタブを「${tab.tabId}」に切り替えました` : `💡 tabId: "${tab.tabId}" を指定して操作できます`)
+      }],
+      tabs: await this.browserService.listTabs()
+    };
+  }
+
+  private async handleListTabs(): Promise<MCPResponse> {
+    const tabs = await this.browserService.listTabs();
+    return {
+      content: [{
+        type: "text",
+        text: tabs.length === 0
+          ? "🗂️ 開いているタブはありません。start_browserでブラウザを起動してください。"
+          : `🗂️ ${tabs.length}個のタブ\n\n` + tabs.map(tab => this.formatTab(tab)).join('\n')
+      }],
+      tabs
+    };
+  }
+
+  private async handleSwitchTab(tabId: string): Promise<MCPResponse> {
+    const tab = await this.browserService.switchTab(tabId);
+    return {
+      content: [{
+        type: "text",
+        text: `👉 アクティブなタブを切り替えました\n${this.formatTab(tab)}`
+      }],
+      tabs: await this.browserService.listTabs()
+    };
+  }
+
+  private async handleCloseTab(tabId: string): Promise<MCPResponse> {
+    const activeTabId = await this.browserService.closeTab(tabId);
+    this.twitterServices.delete(tabId);
+
+    return {
+      content: [{
+        type: "text",
+        text: `🗑️ タブ「${tabId}」を閉じました（アクティブなタブ: ${activeTabId || 'なし'}）`
+      }],
+      tabs: await this.browserService.listTabs()
+    };
+  }
+
+  private formatTab(tab: BrowserTabInfo): string {
+    return `${tab.active ? '👉' : '  '} [${tab.tabId}] ${tab.title || '(無題)'}${tab.isolated ? ' 🔒分離' : ''}\n     ${tab.url}`;
   }
 
   private async handleCloseBrowser(): Promise<MCPResponse> {
     const result = await this.browserService.closeBrowser();
-    this.twitterService = null;
+    this.twitterServices.clear();
     return result;
   }
 
   /**
-   * TwitterServiceを取得
+   * タブのTwitterServiceを作成（リクエスト予算とカーソルは全タブで共有）
+   */
+  private createTwitterService(page: Page): TwitterService {
+    return new TwitterService(page, this.browserService.getBudget(), this.cursorStore);
+  }
+
+  /**
+   * 指定タブ（未指定時はアクティブなタブ）のTwitterServiceを取得
    */
-  getTwitterService(): TwitterService | null {
-    return this.twitterService;
+  getTwitterService(tabId?: string): TwitterService | null {
+    const resolved = this.browserService.isReady() ? this.browserService.resolveTabId(tabId) : null;
+    return resolved ? this.twitterServices.get(resolved) ?? null : null;
   }
 
   /**
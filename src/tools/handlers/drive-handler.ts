@@ -3,6 +3,7 @@
 
 import { DriveService } from '../../services/drive.js';
 import { MCPResponse } from '../../types/interfaces.js';
+import { toolOutputSchema, arrayOf, SHARED_DRIVE_SCHEMA, DRIVE_FILE_SCHEMA } from '../output-schemas.js';
 
 export class DriveToolHandler {
   private driveService: DriveService;
@@ -23,6 +24,7 @@ export class DriveToolHandler {
           type: "object",
           properties: {}
         },
+        outputSchema: toolOutputSchema()
       },
       {
         name: "list_shared_drives",
@@ -31,6 +33,7 @@ export class DriveToolHandler {
           type: "object",
           properties: {}
         },
+        outputSchema: toolOutputSchema({ drives: arrayOf(SHARED_DRIVE_SCHEMA) }, ["drives"])
       },
       {
         name: "list_folders_in_shared_drive",
@@ -49,6 +52,7 @@ export class DriveToolHandler {
           },
           required: ["driveId"]
         },
+        outputSchema: toolOutputSchema({ files: arrayOf(DRIVE_FILE_SCHEMA) }, ["files"])
       },
       {
         name: "create_folder_in_shared_drive",
@@ -71,6 +75,7 @@ export class DriveToolHandler {
           },
           required: ["driveId", "folderName"]
         },
+        outputSchema: toolOutputSchema({ file: DRIVE_FILE_SCHEMA }, ["file"])
       },
       {
         name: "create_spreadsheet_in_shared_drive",
@@ -93,6 +98,7 @@ export class DriveToolHandler {
           },
           required: ["driveId", "fileName"]
         },
+        outputSchema: toolOutputSchema({ file: DRIVE_FILE_SCHEMA }, ["file"])
       },
       {
         name: "upload_file_to_shared_drive",
@@ -124,6 +130,7 @@ export class DriveToolHandler {
           },
           required: ["driveId", "fileName", "fileContent"]
         },
+        outputSchema: toolOutputSchema({ file: DRIVE_FILE_SCHEMA }, ["file"])
       },
       {
         name: "create_x_collection_project",
@@ -146,6 +153,7 @@ export class DriveToolHandler {
           },
           required: ["driveId", "projectName"]
         },
+        outputSchema: toolOutputSchema()
       }
     ];
   }
@@ -2,7 +2,8 @@
 // Google Sheets関連ツールの専用ハンドラー
 
 import { SheetsService } from '../../services/sheets.js';
-import { Tweet, UserProfile, MCPResponse } from '../../types/interfaces.js';
+import { Tweet, UserProfile, UserListEntry, MCPResponse } from '../../types/interfaces.js';
+import { toolOutputSchema, arrayOf, EXPORT_RESULT_SCHEMA, SHEET_INFO_SCHEMA, DRIVE_FILE_SCHEMA } from '../output-schemas.js';
 
 export class SheetsToolHandler {
   private sheetsService: SheetsService;
@@ -23,6 +24,7 @@ export class SheetsToolHandler {
           type: "object",
           properties: {}
         },
+        outputSchema: toolOutputSchema()
       },
       {
         name: "create_master_sheet",
@@ -41,6 +43,7 @@ export class SheetsToolHandler {
             }
           }
         },
+        outputSchema: toolOutputSchema({ spreadsheet: SHEET_INFO_SCHEMA }, ["spreadsheet"])
       },
       {
         name: "export_tweets_to_sheets",
@@ -59,10 +62,20 @@ export class SheetsToolHandler {
             worksheetName: {
               type: "string",
               description: "ワークシート名（未指定時は今日の日付）"
+            },
+            includeRichContent: {
+              type: "boolean",
+              description: "アンケート・リンクカード・コミュニティノートの列を追加する",
+              default: false
+            },
+            tabId: {
+              type: "string",
+              description: "出力するデータを収集したタブID（未指定時はアクティブなタブ）"
             }
           },
           required: ["spreadsheetId"]
         },
+        outputSchema: toolOutputSchema({ exportResult: EXPORT_RESULT_SCHEMA }, ["exportResult"])
       },
       {
         name: "export_profile_to_sheets",
@@ -82,10 +95,42 @@ export class SheetsToolHandler {
               type: "string",
               description: "ワークシート名",
               default: "Profiles"
+            },
+            tabId: {
+              type: "string",
+              description: "出力するデータを収集したタブID（未指定時はアクティブなタブ）"
             }
           },
           required: ["spreadsheetId"]
         },
+        outputSchema: toolOutputSchema({ exportResult: EXPORT_RESULT_SCHEMA }, ["exportResult"])
+      },
+      {
+        name: "export_users_to_sheets",
+        description: "収集したフォロワー・フォロー中一覧をGoogle Sheetsの専用ワークシートに出力します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            spreadsheetId: {
+              type: "string",
+              description: "出力先スプレッドシートID"
+            },
+            users: {
+              type: "array",
+              description: "出力するユーザーデータ（最後に収集したデータを使用）"
+            },
+            worksheetName: {
+              type: "string",
+              description: "ワークシート名（未指定時は Followers / Following）"
+            },
+            tabId: {
+              type: "string",
+              description: "出力するデータを収集したタブID（未指定時はアクティブなタブ）"
+            }
+          },
+          required: ["spreadsheetId"]
+        },
+        outputSchema: toolOutputSchema({ exportResult: EXPORT_RESULT_SCHEMA }, ["exportResult"])
       },
       {
         name: "list_available_sheets",
@@ -100,6 +145,7 @@ export class SheetsToolHandler {
             }
           }
         },
+        outputSchema: toolOutputSchema({ files: arrayOf(DRIVE_FILE_SCHEMA) }, ["files"])
       }
     ];
   }
@@ -111,7 +157,8 @@ export class SheetsToolHandler {
     toolName: string, 
     args: any,
     lastCollectedTweets: Tweet[],
-    lastCollectedProfile: UserProfile | null
+    lastCollectedProfile: UserProfile | null,
+    lastCollectedUsers: UserListEntry[] = []
   ): Promise<MCPResponse | null> {
     switch (toolName) {
       case "setup_google_sheets":
@@ -127,7 +174,8 @@ export class SheetsToolHandler {
         return await this.handleExportTweetsToSheets(
           args?.spreadsheetId as string,
           args?.tweets as Tweet[] | undefined || lastCollectedTweets,
-          args?.worksheetName as string | undefined
+          args?.worksheetName as string | undefined,
+          args?.includeRichContent as boolean | undefined
         );
       
       case "export_profile_to_sheets":
@@ -137,6 +185,13 @@ export class SheetsToolHandler {
           args?.worksheetName as string | undefined
         );
       
+      case "export_users_to_sheets":
+        return await this.handleExportUsersToSheets(
+          args?.spreadsheetId as string,
+          args?.users as UserListEntry[] | undefined || lastCollectedUsers,
+          args?.worksheetName as string | undefined
+        );
+      
       case "list_available_sheets":
         return await this.handleListAvailableSheets(args?.maxResults as number | undefined);
       
@@ -163,7 +218,8 @@ export class SheetsToolHandler {
   private async handleExportTweetsToSheets(
     spreadsheetId: string,
     tweets: Tweet[],
-    worksheetName?: string
+    worksheetName?: string,
+    includeRichContent: boolean = false
   ): Promise<MCPResponse> {
     if (!tweets || tweets.length === 0) {
       throw new Error('エクスポートするツイートデータがありません。先にcollect_tweets_naturallyを実行してください。');
@@ -172,7 +228,8 @@ export class SheetsToolHandler {
     return await this.sheetsService.exportTweetsToSheets(
       spreadsheetId,
       tweets,
-      worksheetName
+      worksheetName,
+      includeRichContent
     );
   }
 
@@ -192,6 +249,22 @@ export class SheetsToolHandler {
     );
   }
 
+  private async handleExportUsersToSheets(
+    spreadsheetId: string,
+    users: UserListEntry[],
+    worksheetName?: string
+  ): Promise<MCPResponse> {
+    if (!users || users.length === 0) {
+      throw new Error('エクスポートするユーザーデータがありません。先にcollect_followersまたはcollect_followingを実行してください。');
+    }
+
+    return await this.sheetsService.exportUsersToSheets(
+      spreadsheetId,
+      users,
+      worksheetName
+    );
+  }
+
   private async handleListAvailableSheets(maxResults: number = 10): Promise<MCPResponse> {
     return await this.sheetsService.listAvailableSheets(maxResults);
   }
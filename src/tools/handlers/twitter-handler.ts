@@ -1,23 +1,49 @@
 // src/tools/handlers/twitter-handler.ts
 // Twitter/X関連ツールの専用ハンドラー - デバッグ機能強化版
 
-import { TwitterService } from '../../services/twitter.js';
-import { BrowserService } from '../../services/browser.js';
-import { Tweet, UserProfile, MCPResponse } from '../../types/interfaces.js';
-import readline from 'readline';
+import { TwitterService, MAX_LOGIN_WAIT_SECONDS } from '../../services/twitter.js';
+import { BrowserService, DEFAULT_TAB_ID } from '../../services/browser.js';
+import { PageStateError } from '../../services/page-state.js';
+import { Tweet, UserProfile, UserListEntry, UserListType, MCPResponse, SearchConfig, ProfileTab, CollectionConfig } from '../../types/interfaces.js';
+import { HumanHandoffService } from '../../services/human-handoff.js';
+import {
+  toolOutputSchema,
+  arrayOf,
+  TWEET_SCHEMA,
+  USER_PROFILE_SCHEMA,
+  USER_LIST_ENTRY_SCHEMA,
+  THREAD_SCHEMA,
+  CURSOR_SCHEMA,
+  STOP_REASON_SCHEMA,
+  FETCH_RESULT_SCHEMA,
+  HANDOFF_SCHEMA,
+  LOGIN_SCHEMA
+} from '../output-schemas.js';
+
+// タブごとに保持する収集データ
+interface CollectedData {
+  tweets: Tweet[];
+  profile: UserProfile | null;
+  users: UserListEntry[];
+}
+
+// 全Twitterツール共通の対象タブ指定
+const TAB_ID_PROPERTY = {
+  type: "string",
+  description: "対象のタブID（未指定時はアクティブなタブ）"
+};
 
 export class TwitterToolHandler {
   private browserService: BrowserService;
-  private rl: readline.Interface;
+  private handoff: HumanHandoffService;
   private isOperating: boolean = false;
 
-  // データストレージ
-  private lastCollectedTweets: Tweet[] = [];
-  private lastCollectedProfile: UserProfile | null = null;
+  // データストレージ（タブIDごと）
+  private collectedData = new Map<string, CollectedData>();
 
-  constructor(browserService: BrowserService, rl: readline.Interface) {
+  constructor(browserService: BrowserService, handoff: HumanHandoffService) {
     this.browserService = browserService;
-    this.rl = rl;
+    this.handoff = handoff;
   }
 
   /**
@@ -27,25 +53,57 @@ export class TwitterToolHandler {
     return [
       {
         name: "navigate_to_user",
-        description: "指定したXユーザーのページに移動します",
+        description: "指定したXユーザーのページ（各タブ）に移動します。移動後のcollect_tweets_naturallyはそのタブのタイムラインを収集します",
         inputSchema: {
           type: "object",
           properties: {
             username: {
               type: "string",
               description: "Xのユーザー名（@なし）"
-            }
+            },
+            tab: {
+              type: "string",
+              enum: ["posts", "replies", "media", "likes", "highlights"],
+              description: "開くタブ（ポスト・返信・メディア・いいね・ハイライト）",
+              default: "posts"
+            },
+            tabId: TAB_ID_PROPERTY
           },
           required: ["username"]
         },
+        outputSchema: toolOutputSchema()
       },
       {
         name: "check_login_status",
         description: "ログイン状態をチェックし、必要に応じて手動ログインを促します",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            tabId: TAB_ID_PROPERTY
+          }
+        },
+        outputSchema: toolOutputSchema({ login: LOGIN_SCHEMA }, ["login"])
+      },
+      {
+        name: "wait_for_login",
+        description: "ブラウザを前面に表示したまま、ログインが完了するまで待機します（ホームタイムライン等を検出した時点で、ログインしたアカウントのハンドルを返します）",
+        inputSchema: {
+          type: "object",
+          properties: {
+            timeoutSeconds: {
+              type: "number",
+              description: `最大待機時間（秒、0より大きく${MAX_LOGIN_WAIT_SECONDS}以下）。MCPクライアントのタイムアウトを避けるための上限で、時間内に終わらない場合は再実行してください`,
+              default: 45
+            },
+            pollIntervalSeconds: {
+              type: "number",
+              description: "ログイン状態の確認間隔（秒、0より大きい値）",
+              default: 3
+            },
+            tabId: TAB_ID_PROPERTY
+          }
         },
+        outputSchema: toolOutputSchema({ login: LOGIN_SCHEMA }, ["login"])
       },
       {
         name: "collect_tweets_naturally",
@@ -67,46 +125,286 @@ export class TwitterToolHandler {
               type: "number",
               description: "読んでいる風の待機時間（ミリ秒）",
               default: 2000
-            }
+            },
+            sinceLastRun: {
+              type: "boolean",
+              description: "前回の収集で見た最新ツイートに到達したら停止する（差分収集）",
+              default: false
+            },
+            extractionMode: {
+              type: "string",
+              enum: ["network", "dom"],
+              description: "抽出方式（network: GraphQLレスポンスを解析しDOMで補完 / dom: DOMのみ）",
+              default: "network"
+            },
+            since: {
+              type: "string",
+              description: "この日時より古いツイートに到達したら停止（ISO-8601 または YYYY-MM-DD）"
+            },
+            until: {
+              type: "string",
+              description: "この日時より新しいツイートは除外（ISO-8601 または YYYY-MM-DD）"
+            },
+            stallLimit: {
+              type: "number",
+              description: "新しいツイートが出ないスクロールが何回続いたら停止するか",
+              default: 3
+            },
+            timeZone: {
+              type: "string",
+              description: "相対表記・日付表記のタイムスタンプを解釈するタイムゾーン（例: Asia/Tokyo、未指定時は X_COLLECTOR_TIMEZONE またはシステム設定）"
+            },
+            includePromoted: {
+              type: "boolean",
+              description: "広告（プロモーション）を収集対象に含める",
+              default: false
+            },
+            includePinned: {
+              type: "boolean",
+              description: "固定ツイートを収集対象に含める",
+              default: true
+            },
+            includeSensitive: {
+              type: "boolean",
+              description: "センシティブな内容の警告付きツイートを収集対象に含める",
+              default: true
+            },
+            revealSensitive: {
+              type: "boolean",
+              description: "センシティブな内容の警告をクリックして表示してから抽出する",
+              default: false
+            },
+            resume: {
+              type: "boolean",
+              description: "前回中断した収集のチェックポイントから再開する",
+              default: false
+            },
+            tabId: TAB_ID_PROPERTY
           }
         },
+        outputSchema: toolOutputSchema({
+          tweets: arrayOf(TWEET_SCHEMA),
+          cursor: CURSOR_SCHEMA,
+          stopReason: STOP_REASON_SCHEMA
+        })
       },
       {
         name: "get_user_profile",
         description: "ユーザープロフィール情報を取得します",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            tabId: TAB_ID_PROPERTY
+          }
         },
+        outputSchema: toolOutputSchema({ profile: USER_PROFILE_SCHEMA })
       },
       {
         name: "search_tweets",
-        description: "キーワードでツイートを検索します",
+        description: "キーワードと検索演算子（アカウント・期間・エンゲージメント・言語・フィルター）でツイートを検索します",
         inputSchema: {
           type: "object",
           properties: {
             query: {
               type: "string",
-              description: "検索キーワード"
+              description: "検索キーワード（X検索構文も可）"
             },
             maxResults: {
               type: "number",
               description: "最大取得件数",
               default: 10
-            }
+            },
+            fromUsers: {
+              type: "array",
+              items: { type: "string" },
+              description: "投稿者（from:）"
+            },
+            toUsers: {
+              type: "array",
+              items: { type: "string" },
+              description: "返信先（to:）"
+            },
+            mentioning: {
+              type: "array",
+              items: { type: "string" },
+              description: "メンションされたアカウント（@）"
+            },
+            since: {
+              type: "string",
+              description: "開始日（YYYY-MM-DD、since:）"
+            },
+            until: {
+              type: "string",
+              description: "終了日（YYYY-MM-DD、until:）"
+            },
+            minFaves: {
+              type: "number",
+              description: "最小いいね数（min_faves:）"
+            },
+            minRetweets: {
+              type: "number",
+              description: "最小リポスト数（min_retweets:）"
+            },
+            minReplies: {
+              type: "number",
+              description: "最小返信数（min_replies:）"
+            },
+            lang: {
+              type: "string",
+              description: "言語コード（lang:、例: ja, en）"
+            },
+            filters: {
+              type: "array",
+              items: { type: "string", enum: ["media", "images", "videos", "links", "replies", "quote"] },
+              description: "含める種類（filter:）"
+            },
+            excludeFilters: {
+              type: "array",
+              items: { type: "string", enum: ["media", "images", "videos", "links", "replies", "quote"] },
+              description: "除外する種類（-filter:）"
+            },
+            excludeWords: {
+              type: "array",
+              items: { type: "string" },
+              description: "除外するキーワード"
+            },
+            tab: {
+              type: "string",
+              enum: ["top", "latest", "people", "media"],
+              description: "検索タブ（話題・最新・ユーザー・メディア）",
+              default: "latest"
+            },
+            sinceLastRun: {
+              type: "boolean",
+              description: "前回の同じ検索で見た最新ツイートに到達したら停止する（差分収集）",
+              default: false
+            },
+            tabId: TAB_ID_PROPERTY
+          }
+        },
+        outputSchema: toolOutputSchema({
+          tweets: arrayOf(TWEET_SCHEMA),
+          users: arrayOf(USER_LIST_ENTRY_SCHEMA),
+          searchQuery: { type: "string" },
+          cursor: CURSOR_SCHEMA,
+          stopReason: STOP_REASON_SCHEMA
+        })
+      },
+      {
+        name: "collect_followers",
+        description: "指定ユーザーのフォロワー一覧を人間らしいスクロールで収集します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            username: {
+              type: "string",
+              description: "Xのユーザー名（@なし）"
+            },
+            verifiedOnly: {
+              type: "boolean",
+              description: "認証済みフォロワー（/verified_followers）のみ収集する",
+              default: false
+            },
+            maxUsers: {
+              type: "number",
+              description: "最大取得人数",
+              default: 100
+            },
+            tabId: TAB_ID_PROPERTY
+          },
+          required: ["username"]
+        },
+        outputSchema: toolOutputSchema({ users: arrayOf(USER_LIST_ENTRY_SCHEMA) })
+      },
+      {
+        name: "collect_following",
+        description: "指定ユーザーのフォロー中一覧を人間らしいスクロールで収集します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            username: {
+              type: "string",
+              description: "Xのユーザー名（@なし）"
+            },
+            maxUsers: {
+              type: "number",
+              description: "最大取得人数",
+              default: 100
+            },
+            tabId: TAB_ID_PROPERTY
           },
-          required: ["query"]
+          required: ["username"]
         },
+        outputSchema: toolOutputSchema({ users: arrayOf(USER_LIST_ENTRY_SCHEMA) })
+      },
+      {
+        name: "collect_thread",
+        description: "ツイートURLを開き、元ツイート・投稿者のスレッド・返信（返信先IDと階層付き）を収集します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "ツイートのURL（https://x.com/<user>/status/<id>）"
+            },
+            maxReplies: {
+              type: "number",
+              description: "最大取得返信数",
+              default: 50
+            },
+            includeHiddenReplies: {
+              type: "boolean",
+              description: "非表示の返信（不快な内容・スパムの可能性）も展開して収集する",
+              default: true
+            },
+            tabId: TAB_ID_PROPERTY
+          },
+          required: ["url"]
+        },
+        outputSchema: toolOutputSchema({ tweets: arrayOf(TWEET_SCHEMA), thread: THREAD_SCHEMA })
+      },
+      {
+        name: "get_tweet",
+        description: "ツイートURLを開き、全文・正確な表示/いいね/リポスト/引用/ブックマーク数・投稿元を取得します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "ツイートのURL（https://x.com/<user>/status/<id>）"
+            },
+            tabId: TAB_ID_PROPERTY
+          },
+          required: ["url"]
+        },
+        outputSchema: toolOutputSchema({ tweets: arrayOf(TWEET_SCHEMA), fetchResults: arrayOf(FETCH_RESULT_SCHEMA) })
+      },
+      {
+        name: "get_tweets_by_url",
+        description: "複数のツイートURLを順に開いて詳細を取得します。削除済み・非公開などのURLはエラーとして記録し、残りの取得は継続します",
+        inputSchema: {
+          type: "object",
+          properties: {
+            urls: {
+              type: "array",
+              items: { type: "string" },
+              description: "ツイートURLの一覧"
+            },
+            tabId: TAB_ID_PROPERTY
+          },
+          required: ["urls"]
+        },
+        outputSchema: toolOutputSchema({ tweets: arrayOf(TWEET_SCHEMA), fetchResults: arrayOf(FETCH_RESULT_SCHEMA) })
       },
       {
         name: "pause_for_human_interaction",
-        description: "人間の手動操作を待機します（カーソル操作権を返す）",
+        description: "人間の手動操作を待機します（カーソル操作権を返す）。ブラウザに開く操作ページの再開・中止ボタン、またはシグナルファイルで応答を受け付け、resumed / aborted / timed_out を返します",
         inputSchema: {
           type: "object",
           properties: {
             message: {
               type: "string",
-              description: "表示するメッセージ"
+              description: "操作ページに表示するメッセージ"
             },
             pauseDuration: {
               type: "number",
@@ -116,6 +414,7 @@ export class TwitterToolHandler {
           },
           required: ["message"]
         },
+        outputSchema: toolOutputSchema({ handoff: HANDOFF_SCHEMA }, ["handoff"])
       },
       // 🆕 デバッグ機能
       {
@@ -123,16 +422,22 @@ export class TwitterToolHandler {
         description: "現在のページのDOM構造を調査してツイート抽出の問題を診断します",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            tabId: TAB_ID_PROPERTY
+          }
         },
+        outputSchema: toolOutputSchema()
       },
       {
         name: "test_tweet_selectors",
         description: "各種セレクターを試してツイート要素の検出をテストします",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            tabId: TAB_ID_PROPERTY
+          }
         },
+        outputSchema: toolOutputSchema()
       }
     ];
   }
@@ -140,32 +445,74 @@ export class TwitterToolHandler {
   /**
    * Twitter関連ツールの実行ハンドラー
    */
-  async handleTool(toolName: string, args: any, twitterService: TwitterService | null): Promise<MCPResponse | null> {
+  async handleTool(
+    toolName: string,
+    args: any,
+    twitterService: TwitterService | null,
+    tabId: string | null = null
+  ): Promise<MCPResponse | null> {
+    const targetTabId = tabId || DEFAULT_TAB_ID;
+
     switch (toolName) {
       case "navigate_to_user":
-        return await this.handleNavigateToUser(twitterService, args?.username as string);
+        return await this.handleNavigateToUser(
+          twitterService,
+          args?.username as string,
+          args?.tab as ProfileTab | undefined
+        );
       
       case "check_login_status":
         return await this.handleCheckLoginStatus(twitterService);
-      
-      case "collect_tweets_naturally":
-        return await this.handleCollectTweetsNaturally(
+
+      case "wait_for_login":
+        return await this.handleWaitForLogin(
           twitterService,
-          args?.maxTweets as number | undefined,
-          args?.scrollDelay as number | undefined,
-          args?.readingTime as number | undefined
+          args?.timeoutSeconds as number | undefined,
+          args?.pollIntervalSeconds as number | undefined
         );
       
+      case "collect_tweets_naturally":
+        return await this.handleCollectTweetsNaturally(twitterService, targetTabId, (args || {}) as CollectionConfig);
+      
       case "get_user_profile":
-        return await this.handleGetUserProfile(twitterService);
+        return await this.handleGetUserProfile(twitterService, targetTabId);
       
       case "search_tweets":
-        return await this.handleSearchTweets(
+        return await this.handleSearchTweets(twitterService, targetTabId, (args || {}) as SearchConfig);
+
+      case "collect_followers":
+        return await this.handleCollectUserList(
+          twitterService,
+          targetTabId,
+          args?.username as string,
+          args?.verifiedOnly ? 'verified_followers' : 'followers',
+          args?.maxUsers as number | undefined
+        );
+
+      case "collect_following":
+        return await this.handleCollectUserList(
+          twitterService,
+          targetTabId,
+          args?.username as string,
+          'following',
+          args?.maxUsers as number | undefined
+        );
+
+      case "collect_thread":
+        return await this.handleCollectThread(
           twitterService,
-          args?.query as string,
-          args?.maxResults as number | undefined
+          targetTabId,
+          args?.url as string,
+          args?.maxReplies as number | undefined,
+          args?.includeHiddenReplies as boolean | undefined
         );
 
+      case "get_tweet":
+        return await this.handleGetTweetsByUrl(twitterService, targetTabId, args?.url ? [args.url as string] : []);
+
+      case "get_tweets_by_url":
+        return await this.handleGetTweetsByUrl(twitterService, targetTabId, (args?.urls || []) as string[]);
+
       case "pause_for_human_interaction":
         return await this.handlePauseForHumanInteraction(
           args?.message as string,
@@ -177,7 +524,7 @@ export class TwitterToolHandler {
         return await this.handleDebugPageStructure(twitterService);
       
       case "test_tweet_selectors":
-        return await this.handleTestTweetSelectors(twitterService);
+        return await this.handleTestTweetSelectors(twitterService, targetTabId);
       
       default:
         return null;
@@ -188,25 +535,42 @@ export class TwitterToolHandler {
   // 実装メソッド
   // ===============================================
 
-  private async handleNavigateToUser(twitterService: TwitterService | null, username: string): Promise<MCPResponse> {
+  private async handleNavigateToUser(
+    twitterService: TwitterService | null,
+    username: string,
+    tab: ProfileTab = 'posts'
+  ): Promise<MCPResponse> {
     if (!twitterService) {
       throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
     }
-    return await twitterService.navigateToUser(username);
+    return await twitterService.navigateToUser(username, tab);
   }
 
   private async handleCheckLoginStatus(twitterService: TwitterService | null): Promise<MCPResponse> {
     if (!twitterService) {
       throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
     }
-    return await twitterService.checkLoginStatus();
+    return await twitterService.checkLoginStatus(this.browserService.getActiveProfile());
+  }
+
+  private async handleWaitForLogin(
+    twitterService: TwitterService | null,
+    timeoutSeconds: number = 45,
+    pollIntervalSeconds: number = 3
+  ): Promise<MCPResponse> {
+    if (!twitterService) {
+      throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
+    }
+
+    // ログイン操作は人間が行うため、待機中は自動操作を行わない
+    this.isOperating = false;
+    return await twitterService.waitForLogin(timeoutSeconds, pollIntervalSeconds);
   }
 
   private async handleCollectTweetsNaturally(
     twitterService: TwitterService | null,
-    maxTweets: number = 20,
-    scrollDelay: number = 3000,
-    readingTime: number = 2000
+    tabId: string,
+    config: CollectionConfig
   ): Promise<MCPResponse> {
     if (!twitterService) {
       throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
@@ -216,16 +580,35 @@ export class TwitterToolHandler {
     console.log("🤖 自動操作を開始します。人間によるカーソル操作はブロックされます。");
   
     try {
-      const result = await twitterService.collectTweetsNaturally({
-        maxTweets,
-        scrollDelay,
-        readingTime
-      });
+      const collectionConfig: CollectionConfig = {
+        ...config,
+        maxTweets: config.maxTweets ?? 20,
+        scrollDelay: config.scrollDelay ?? 3000,
+        readingTime: config.readingTime ?? 2000
+      };
+      let result = await twitterService.collectTweetsNaturally(collectionConfig);
+
+      // ブラウザのクラッシュで中断した場合は、復旧後にチェックポイントから1回だけ再開
+      if (result.stopReason === 'error') {
+        const restored = await this.browserService.recoverIfNeeded();
+        if (restored) {
+          console.log("♻️ ブラウザを復旧しました。チェックポイントから収集を再開します。");
+          const resumed = await twitterService.collectTweetsNaturally({ ...collectionConfig, resume: true });
+          result = {
+            ...resumed,
+            content: [{
+              type: "text",
+              text: `♻️ ブラウザのクラッシュを検知して再起動し、収集を再開しました（${restored.join(' / ')}）\n\n` +
+                    resumed.content[0].text
+            }]
+          };
+        }
+      }
   
       // 🔧 修正: 実際のツイートデータを使用
       if (result.tweets) {
-        this.lastCollectedTweets = result.tweets;
-        console.log(`✅ データストレージに${this.lastCollectedTweets.length}件のツイートを保存しました`);
+        this.getCollectedData(tabId).tweets = result.tweets;
+        console.log(`✅ データストレージ[${tabId}]に${result.tweets.length}件のツイートを保存しました`);
       }
   
       this.isOperating = false;
@@ -237,7 +620,7 @@ export class TwitterToolHandler {
     }
   }
 
-  private async handleGetUserProfile(twitterService: TwitterService | null): Promise<MCPResponse> {
+  private async handleGetUserProfile(twitterService: TwitterService | null, tabId: string): Promise<MCPResponse> {
     if (!twitterService) {
       throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
     }
@@ -246,7 +629,7 @@ export class TwitterToolHandler {
     
     // プロフィールデータを保存
     if (result.profile) {
-      this.lastCollectedProfile = result.profile;
+      this.getCollectedData(tabId).profile = result.profile;
       console.log(`✅ プロフィールデータを保存しました: @${result.profile.username}`);
     }
     
@@ -255,58 +638,166 @@ export class TwitterToolHandler {
 
   private async handleSearchTweets(
     twitterService: TwitterService | null,
-    query: string, 
-    maxResults: number = 10
+    tabId: string,
+    config: SearchConfig
   ): Promise<MCPResponse> {
     if (!twitterService) {
       throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
     }
 
     const result = await twitterService.searchTweets({
-      query,
-      maxResults
+      ...config,
+      maxResults: config.maxResults ?? 10
     });
 
     // 検索結果のツイートを保存
     if (result.tweets) {
-      this.lastCollectedTweets = result.tweets;
-      console.log(`✅ 検索結果: ${this.lastCollectedTweets.length}件のツイートを保存しました`);
+      this.getCollectedData(tabId).tweets = result.tweets;
+      console.log(`✅ 検索結果: ${result.tweets.length}件のツイートを保存しました`);
+    }
+
+    // ユーザータブの結果を保存
+    if (result.users) {
+      this.getCollectedData(tabId).users = result.users;
+      console.log(`✅ 検索結果: ${result.users.length}人のユーザーを保存しました`);
     }
 
     return result;
   }
 
+  private async handleCollectUserList(
+    twitterService: TwitterService | null,
+    tabId: string,
+    username: string,
+    listType: Exclude<UserListType, 'search_people'>,
+    maxUsers: number = 100
+  ): Promise<MCPResponse> {
+    if (!twitterService) {
+      throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
+    }
+
+    this.isOperating = true;
+
+    try {
+      const result = await twitterService.collectUserList({
+        username,
+        listType,
+        maxUsers
+      });
+
+      if (result.users) {
+        this.getCollectedData(tabId).users = result.users;
+        console.log(`✅ ユーザー一覧: ${result.users.length}人を保存しました`);
+      }
+
+      return result;
+    } finally {
+      this.isOperating = false;
+    }
+  }
+
+  private async handleCollectThread(
+    twitterService: TwitterService | null,
+    tabId: string,
+    url: string,
+    maxReplies: number = 50,
+    includeHiddenReplies: boolean = true
+  ): Promise<MCPResponse> {
+    if (!twitterService) {
+      throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
+    }
+
+    this.isOperating = true;
+
+    try {
+      const state = await this.browserService.navigateToUrl(url, tabId);
+      if (state !== 'ok') {
+        throw new PageStateError(state, url);
+      }
+
+      const result = await twitterService.collectThread({
+        url,
+        maxReplies,
+        includeHiddenReplies
+      });
+
+      // スレッド全体をエクスポート対象として保存
+      if (result.tweets) {
+        this.getCollectedData(tabId).tweets = result.tweets;
+        console.log(`✅ スレッド: ${result.tweets.length}件のツイートを保存しました`);
+      }
+
+      return result;
+    } finally {
+      this.isOperating = false;
+    }
+  }
+
+  private async handleGetTweetsByUrl(
+    twitterService: TwitterService | null,
+    tabId: string,
+    urls: string[]
+  ): Promise<MCPResponse> {
+    if (!twitterService) {
+      throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
+    }
+    if (urls.length === 0) {
+      throw new Error("ツイートURLが指定されていません。");
+    }
+
+    this.isOperating = true;
+
+    try {
+      const result = await twitterService.getTweetsByUrl(urls, url => this.browserService.navigateToUrl(url, tabId));
+
+      if (result.tweets && result.tweets.length > 0) {
+        this.getCollectedData(tabId).tweets = result.tweets;
+        console.log(`✅ URL指定: ${result.tweets.length}件のツイートを保存しました`);
+      }
+
+      return result;
+    } finally {
+      this.isOperating = false;
+    }
+  }
+
   private async handlePauseForHumanInteraction(
     message: string,
     pauseDuration: number = 30
   ): Promise<MCPResponse> {
     this.isOperating = false;
-    
-    console.log(`\n🔔 ${message}`);
-    console.log(`⏰ ${pauseDuration}秒間、手動操作が可能です。`);
-    console.log('操作完了後、Enterキーを押してください...');
-    
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        console.log('\n⏱️ タイムアウトしました。自動で継続します。');
-        resolve({
-          content: [{
-            type: "text",
-            text: `⏱️ ${pauseDuration}秒のタイムアウトが発生しました。操作を継続します。`
-          }]
-        });
-      }, pauseDuration * 1000);
-
-      this.rl.question('', () => {
-        clearTimeout(timeout);
-        resolve({
-          content: [{
-            type: "text",
-            text: "✅ 手動操作が完了しました。自動操作を再開します。"
-          }]
-        });
-      });
-    });
+
+    // stdin はMCP通信（StdioServerTransport）が使用しているため、操作ページとシグナルファイルで応答を受け付ける
+    const session = await this.handoff.start(message, pauseDuration);
+    console.error(`\n🔔 ${message}`);
+    console.error(`⏰ ${pauseDuration}秒間、手動操作が可能です。`);
+    console.error(`🖱️ 操作完了後、${session.controlUrl} の「再開」を押してください`);
+    console.error(`📄 または ${session.signalFile} に resume / abort と書き込んでください`);
+
+    const controlPage = await this.browserService.openControlPage(session.controlUrl).catch(() => null);
+    const result = await session.result;
+    if (controlPage) await this.browserService.closeControlPage(controlPage);
+
+    const channelLabels = {
+      control_page: '操作ページ',
+      signal_file: 'シグナルファイル',
+      timeout: 'タイムアウト',
+      shutdown: 'サーバー終了'
+    };
+    const texts = {
+      resumed: "✅ 手動操作が完了しました。自動操作を再開します。",
+      aborted: "🛑 人間が中止を選択しました。自動操作を続けないでください。",
+      timed_out: `⏱️ ${pauseDuration}秒のタイムアウトが発生しました。手動操作が完了していない可能性があります。`
+    };
+
+    return {
+      content: [{
+        type: "text",
+        text: `${texts[result.outcome]}\n` +
+              `📋 結果: ${result.outcome}（${channelLabels[result.channel]}、${result.waitedSeconds}秒待機）`
+      }],
+      handoff: result
+    };
   }
 
   // ===============================================
@@ -322,15 +813,12 @@ export class TwitterToolHandler {
     return await twitterService.debugPageStructure();
   }
 
-  private async handleTestTweetSelectors(twitterService: TwitterService | null): Promise<MCPResponse> {
+  private async handleTestTweetSelectors(twitterService: TwitterService | null, tabId: string): Promise<MCPResponse> {
     if (!twitterService) {
       throw new Error("ブラウザが起動していません。先にstart_browserを実行してください。");
     }
 
-    const page = this.browserService.getCurrentPage();
-    if (!page) {
-      throw new Error("ページが利用できません。");
-    }
+    const page = this.browserService.getPage(tabId);
 
     // セレクターテストを実行
     const testResults = await page.evaluate(() => {
@@ -399,23 +887,47 @@ export class TwitterToolHandler {
   // データアクセサー
   // ===============================================
 
-  getLastCollectedTweets(): Tweet[] {
-    return this.lastCollectedTweets;
+  getLastCollectedTweets(tabId?: string): Tweet[] {
+    return this.getCollectedData(tabId).tweets;
   }
 
-  getLastCollectedProfile(): UserProfile | null {
-    return this.lastCollectedProfile;
+  getLastCollectedProfile(tabId?: string): UserProfile | null {
+    return this.getCollectedData(tabId).profile;
+  }
+
+  getLastCollectedUsers(tabId?: string): UserListEntry[] {
+    return this.getCollectedData(tabId).users;
   }
 
   isCurrentlyOperating(): boolean {
     return this.isOperating;
   }
 
-  setLastCollectedTweets(tweets: Tweet[]): void {
-    this.lastCollectedTweets = tweets;
+  setLastCollectedTweets(tweets: Tweet[], tabId?: string): void {
+    this.getCollectedData(tabId).tweets = tweets;
+  }
+
+  setLastCollectedProfile(profile: UserProfile, tabId?: string): void {
+    this.getCollectedData(tabId).profile = profile;
   }
 
-  setLastCollectedProfile(profile: UserProfile): void {
-    this.lastCollectedProfile = profile;
+  /**
+   * タブを閉じた際に収集データを破棄
+   */
+  clearCollectedData(tabId: string): void {
+    this.collectedData.delete(tabId);
+  }
+
+  /**
+   * タブの収集データ（未指定時はアクティブなタブ）
+   */
+  private getCollectedData(tabId?: string | null): CollectedData {
+    const key = tabId || this.browserService.getActiveTabId() || DEFAULT_TAB_ID;
+    let data = this.collectedData.get(key);
+    if (!data) {
+      data = { tweets: [], profile: null, users: [] };
+      this.collectedData.set(key, data);
+    }
+    return data;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,223 @@
+// src/tools/output-schemas.ts
+// ツールの outputSchema（structuredContent のJSON Schema）定義
+// MCPToolHandlers が MCPResponse のデータ返却用フィールドを structuredContent として返す
+
+const STRING = { type: "string" };
+const NUMBER = { type: "number" };
+const BOOLEAN = { type: "boolean" };
+
+export function arrayOf(items: object) {
+  return { type: "array", items };
+}
+
+function objectOf(properties: Record<string, object>, required: string[] = []) {
+  return { type: "object", properties, required };
+}
+
+const PAGE_STATE = {
+  type: "string",
+  enum: ["ok", "not_found", "suspended", "protected", "login_required", "rate_limited", "age_restricted"]
+};
+
+const BUDGET_LIMITS = objectOf({ perMinute: NUMBER, perHour: NUMBER, perDay: NUMBER }, ["perMinute", "perHour", "perDay"]);
+
+const BUDGET_STATUS = objectOf({
+  limits: BUDGET_LIMITS,
+  remaining: BUDGET_LIMITS,
+  cooldownUntil: STRING,
+  cooldownReason: { type: "string", enum: ["rate_limited", "error"] },
+  blockedCount: NUMBER
+}, ["limits", "remaining", "blockedCount"]);
+
+const QUOTED_TWEET = objectOf({
+  id: STRING,
+  permalink: STRING,
+  author: STRING,
+  text: STRING,
+  timestamp: STRING
+}, ["author", "text"]);
+
+export const TWEET_SCHEMA = objectOf({
+  id: STRING,
+  permalink: STRING,
+  text: STRING,
+  timestamp: STRING,
+  author: STRING,
+  likes: NUMBER,
+  retweets: NUMBER,
+  replies: NUMBER,
+  quotes: NUMBER,
+  bookmarks: NUMBER,
+  views: NUMBER,
+  isRetweet: BOOLEAN,
+  repostedBy: STRING,
+  isPinned: BOOLEAN,
+  isQuote: BOOLEAN,
+  isPromoted: BOOLEAN,
+  isSensitive: BOOLEAN,
+  source: STRING,
+  place: STRING,
+  media: arrayOf(objectOf({
+    type: { type: "string", enum: ["photo", "video", "gif"] },
+    url: STRING,
+    altText: STRING
+  }, ["type", "url"])),
+  urls: arrayOf(objectOf({ url: STRING, expandedUrl: STRING, displayUrl: STRING }, ["url", "expandedUrl"])),
+  hashtags: arrayOf(STRING),
+  mentions: arrayOf(STRING),
+  quotedTweet: QUOTED_TWEET,
+  poll: objectOf({
+    options: arrayOf(objectOf({ label: STRING, percentage: NUMBER, votes: NUMBER }, ["label"])),
+    totalVotes: NUMBER,
+    isClosed: BOOLEAN,
+    endsAt: STRING
+  }, ["options", "isClosed"]),
+  card: objectOf({ title: STRING, domain: STRING, url: STRING, description: STRING }, ["url"]),
+  communityNote: objectOf({
+    text: STRING,
+    status: { type: "string", enum: ["shown", "unknown"] },
+    noteId: STRING
+  }, ["text", "status"]),
+  timeline: STRING,
+  inReplyToId: STRING,
+  depth: NUMBER
+}, [
+  "id", "permalink", "text", "timestamp", "author", "likes", "retweets", "replies",
+  "isRetweet", "isPinned", "isQuote", "isPromoted", "isSensitive"
+]);
+
+export const USER_PROFILE_SCHEMA = objectOf({
+  username: STRING,
+  displayName: STRING,
+  bio: STRING,
+  followers: NUMBER,
+  following: NUMBER,
+  tweets: NUMBER,
+  verified: BOOLEAN,
+  profileImageUrl: STRING,
+  bannerImageUrl: STRING,
+  location: STRING,
+  website: STRING,
+  joinDate: STRING,
+  birthday: STRING,
+  professionalCategory: STRING
+}, ["username", "displayName", "bio", "followers", "following", "tweets", "verified"]);
+
+export const USER_LIST_ENTRY_SCHEMA = objectOf({
+  username: STRING,
+  displayName: STRING,
+  bio: STRING,
+  verified: BOOLEAN,
+  followsYou: BOOLEAN,
+  profileImageUrl: STRING,
+  sourceUser: STRING,
+  listType: { type: "string", enum: ["followers", "verified_followers", "following", "search_people"] }
+}, ["username", "displayName", "bio", "verified", "followsYou", "sourceUser", "listType"]);
+
+export const THREAD_SCHEMA = objectOf({
+  root: TWEET_SCHEMA,
+  ancestors: arrayOf(TWEET_SCHEMA),
+  selfThread: arrayOf(TWEET_SCHEMA),
+  replies: arrayOf(TWEET_SCHEMA)
+}, ["root", "ancestors", "selfThread", "replies"]);
+
+export const CURSOR_SCHEMA = objectOf({
+  key: STRING,
+  newestId: STRING,
+  newestTimestamp: STRING,
+  updatedAt: STRING,
+  lastRunCount: NUMBER
+}, ["key", "newestId", "newestTimestamp", "updatedAt", "lastRunCount"]);
+
+export const STOP_REASON_SCHEMA = {
+  type: "string",
+  enum: ["max_tweets", "date_bound", "known_tweets", "stalled", "end_of_timeline", "scroll_limit", "rate_limited", "error"]
+};
+
+export const FETCH_RESULT_SCHEMA = objectOf({
+  url: STRING,
+  status: { type: "string", enum: ["ok", "error"] },
+  tweet: TWEET_SCHEMA,
+  error: STRING,
+  pageState: PAGE_STATE
+}, ["url", "status"]);
+
+export const TAB_SCHEMA = objectOf({
+  tabId: STRING,
+  url: STRING,
+  title: STRING,
+  isolated: BOOLEAN,
+  active: BOOLEAN,
+  createdAt: STRING
+}, ["tabId", "url", "title", "isolated", "active", "createdAt"]);
+
+export const PAGE_SNAPSHOT_SCHEMA = objectOf({
+  url: STRING,
+  title: STRING,
+  text: STRING,
+  truncated: BOOLEAN,
+  links: arrayOf(objectOf({ text: STRING, url: STRING }, ["text", "url"]))
+}, ["url", "title", "text", "truncated", "links"]);
+
+export const SESSION_SCHEMA = objectOf({
+  filePath: STRING,
+  cookieCount: NUMBER,
+  localStorageCount: NUMBER,
+  exportedAt: STRING
+}, ["filePath", "cookieCount", "localStorageCount", "exportedAt"]);
+
+export const HANDOFF_SCHEMA = objectOf({
+  outcome: { type: "string", enum: ["resumed", "aborted", "timed_out"] },
+  channel: { type: "string", enum: ["control_page", "signal_file", "timeout", "shutdown"] },
+  waitedSeconds: NUMBER
+}, ["outcome", "channel", "waitedSeconds"]);
+
+export const LOGIN_SCHEMA = objectOf({
+  state: { type: "string", enum: ["logged_in", "login_required", "unknown"] },
+  account: STRING,
+  timedOut: BOOLEAN,
+  waitedSeconds: NUMBER
+}, ["state"]);
+
+export const EXPORT_RESULT_SCHEMA = objectOf({
+  success: BOOLEAN,
+  spreadsheetId: STRING,
+  worksheetName: STRING,
+  totalRows: NUMBER,
+  newRows: NUMBER,
+  startRow: NUMBER,
+  url: STRING
+}, ["success", "spreadsheetId", "worksheetName", "totalRows", "newRows", "startRow", "url"]);
+
+export const SHEET_INFO_SCHEMA = objectOf({
+  spreadsheetId: STRING,
+  title: STRING,
+  url: STRING,
+  worksheets: arrayOf(STRING)
+}, ["spreadsheetId", "title", "url", "worksheets"]);
+
+export const SHARED_DRIVE_SCHEMA = objectOf({ id: STRING, name: STRING, createdTime: STRING }, ["id", "name"]);
+
+export const DRIVE_FILE_SCHEMA = objectOf({
+  id: STRING,
+  name: STRING,
+  mimeType: STRING,
+  parents: arrayOf(STRING),
+  webViewLink: STRING,
+  createdTime: STRING,
+  modifiedTime: STRING,
+  size: STRING
+}, ["id", "name", "mimeType"]);
+
+/**
+ * ツールの outputSchema を生成
+ * 全ツール共通の success（ページ状態によるエラー時は false）・budget・pageState に、ツール固有の項目を加える
+ */
+export function toolOutputSchema(properties: Record<string, object> = {}, required: string[] = []) {
+  return objectOf({
+    success: BOOLEAN,
+    budget: BUDGET_STATUS,
+    pageState: PAGE_STATE,
+    ...properties
+  }, ["success", ...required]);
+}
@@ -11,8 +11,10 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { BrowserService } from '../services/browser.js';
 import { SheetsService } from '../services/sheets.js';
 import { DriveService } from '../services/drive.js';
+import { formatBudgetStatus } from '../services/request-budget.js';
+import { PageStateError } from '../services/page-state.js';
+import { HumanHandoffService } from '../services/human-handoff.js';
 import { MCPResponse } from '../types/interfaces.js';
-import readline from 'readline';
 
 // 個別ハンドラーをインポート
 import { BrowserToolHandler } from './handlers/browser-handler.js';
@@ -25,7 +27,7 @@ export class MCPToolHandlers {
   private browserService: BrowserService;
   private sheetsService: SheetsService;
   private driveService: DriveService;
-  private rl: readline.Interface;
+  private handoffService: HumanHandoffService;
 
   // 機能別ハンドラー
   private browserHandler: BrowserToolHandler;
@@ -39,14 +41,11 @@ export class MCPToolHandlers {
     this.sheetsService = new SheetsService();
     this.driveService = new DriveService();
     
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout
-    });
+    this.handoffService = new HumanHandoffService();
 
     // 機能別ハンドラーの初期化
     this.browserHandler = new BrowserToolHandler(this.browserService);
-    this.twitterHandler = new TwitterToolHandler(this.browserService, this.rl);
+    this.twitterHandler = new TwitterToolHandler(this.browserService, this.handoffService);
     this.sheetsHandler = new SheetsToolHandler(this.sheetsService);
     this.driveHandler = new DriveToolHandler(this.driveService);
   }
@@ -73,40 +72,100 @@ export class MCPToolHandlers {
       try {
         const { name, arguments: args } = request.params;
 
+        // 切断・クラッシュ済みのブラウザは、ツール実行前に同じ設定で復旧（起動・終了ツールは除く）
+        const restored = name === "start_browser" || name === "close_browser"
+          ? null
+          : await this.browserService.recoverIfNeeded();
+        if (restored) {
+          console.error(`♻️ ブラウザを復旧しました: ${restored.join(' / ')}`);
+        }
+
         // 各ハンドラーに順番に処理を委譲
         let result: MCPResponse | null = null;
 
         // 1. ブラウザ関連ツール
         result = await this.browserHandler.handleTool(name, args);
-        if (result) return { content: result.content };
+        if (result) {
+          // 閉じたタブの収集データを破棄
+          if (name === "close_tab") this.twitterHandler.clearCollectedData(args?.tabId as string);
+          return this.toCallToolResult(name === "set_request_budget" ? result : this.withBudgetStatus(result));
+        }
+
+        // 対象タブ（tabId未指定時はアクティブなタブ）
+        const requestedTabId = args?.tabId as string | undefined;
+        const tabId = this.browserService.isReady() ? this.browserService.resolveTabId(requestedTabId) : null;
 
         // 2. Twitter関連ツール
-        const twitterService = this.browserHandler.getTwitterService();
-        result = await this.twitterHandler.handleTool(name, args, twitterService);
-        if (result) return { content: result.content };
+        const twitterService = this.browserHandler.getTwitterService(requestedTabId);
+        result = await this.twitterHandler.handleTool(name, args, twitterService, tabId);
+        if (result) return this.toCallToolResult(this.withBudgetStatus(result));
 
         // 3. Google Sheets関連ツール
         result = await this.sheetsHandler.handleTool(
           name, 
           args,
-          this.twitterHandler.getLastCollectedTweets(),
-          this.twitterHandler.getLastCollectedProfile()
+          this.twitterHandler.getLastCollectedTweets(tabId ?? undefined),
+          this.twitterHandler.getLastCollectedProfile(tabId ?? undefined),
+          this.twitterHandler.getLastCollectedUsers(tabId ?? undefined)
         );
-        if (result) return { content: result.content };
+        if (result) return this.toCallToolResult(result);
 
         // 4. Google Drive関連ツール
         result = await this.driveHandler.handleTool(name, args);
-        if (result) return { content: result.content };
+        if (result) return this.toCallToolResult(result);
 
         // どのハンドラーでも処理されなかった場合
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
 
       } catch (error) {
+        // 存在しない・凍結・非公開などのページ状態は内部エラーではなく、状態コード付きの結果として返す
+        if (error instanceof PageStateError) {
+          return {
+            ...this.toCallToolResult(this.withBudgetStatus({
+              content: [{ type: "text", text: error.message }],
+              pageState: error.state
+            }), false),
+            isError: true
+          };
+        }
         throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${error}`);
       }
     });
   }
 
+  /**
+   * ブラウザ操作の結果にリクエスト予算の残りとクールダウン状態を付加（ブラウザ起動中のみ）
+   */
+  private withBudgetStatus(result: MCPResponse): MCPResponse {
+    if (!this.browserService.isReady()) return result;
+
+    const budget = this.browserService.getBudget().getStatus();
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: formatBudgetStatus(budget) }],
+      budget
+    };
+  }
+
+  /**
+   * ハンドラーの結果をMCPのツール結果に変換（画像はテキストの後に追加）
+   * テキスト・画像以外のデータ返却用フィールドは、各ツールの outputSchema に沿った structuredContent として返す
+   */
+  private toCallToolResult(result: MCPResponse, success: boolean = true) {
+    const { content, images, ...data } = result;
+    return {
+      content: [...content, ...(images || [])],
+      structuredContent: this.toStructuredContent({ success, ...data })
+    };
+  }
+
+  /**
+   * JSONとして返せる値に正規化（undefined・null の項目は省略し、outputSchema の省略可能な項目として扱う）
+   */
+  private toStructuredContent(data: Record<string, unknown>): Record<string, unknown> {
+    return JSON.parse(JSON.stringify(data, (_key, value) => value === null ? undefined : value));
+  }
+
   // ===============================================
   // 統合データアクセサー（後方互換性のため）
   // ===============================================
@@ -162,6 +221,6 @@ export class MCPToolHandlers {
     if (this.browserService.isReady()) {
       await this.browserService.closeBrowser();
     }
-    this.rl.close();
+    this.handoffService.close();
   }
 }
\ No newline at end of file
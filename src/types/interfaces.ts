@@ -2,15 +2,91 @@
 // 全ての型定義を統一管理
 
 export interface Tweet {
-  id: string;
+  id: string;        // ステータスID（/status/<id> から取得）
+  permalink: string; // https://x.com/<author>/status/<id>
   text: string;
   timestamp: string;
   author: string;
   likes: number;
   retweets: number;
   replies: number;
+  quotes?: number;
+  bookmarks?: number;
+  views?: number;
+  // リポスト・固定・引用の区別（author は常に元ツイートの投稿者）
   isRetweet: boolean;
-  originalAuthor?: string;
+  repostedBy?: string;  // リポストしたユーザーのハンドル（タイムラインの持ち主など）
+  isPinned: boolean;
+  isQuote: boolean;     // 引用ツイートの場合 true（引用元は quotedTweet）
+  isPromoted: boolean;  // 広告（プロモーション）
+  isSensitive: boolean; // センシティブな内容の警告付き
+  // 投稿元情報（get_tweet で取得）
+  source?: string;      // 投稿に使われたクライアント（例: Twitter for iPhone）
+  place?: string;       // 位置情報タグ
+  // エンティティ情報
+  media?: TweetMedia[];
+  urls?: TweetUrl[];
+  hashtags?: string[];
+  mentions?: string[];
+  quotedTweet?: QuotedTweet;
+  poll?: TweetPoll;
+  card?: TweetCard;
+  communityNote?: CommunityNote;
+  // 収集元のタイムライン
+  timeline?: TimelineSource;
+  // 会話スレッド情報（collect_thread で設定）
+  inReplyToId?: string;
+  depth?: number;
+}
+
+export type ProfileTab = 'posts' | 'replies' | 'media' | 'likes' | 'highlights';
+
+export type TimelineSource = ProfileTab | 'home' | 'search' | 'thread' | 'other';
+
+export interface TweetMedia {
+  type: 'photo' | 'video' | 'gif';
+  url: string;       // 画像URL（動画はサムネイルURL）
+  altText?: string;
+}
+
+export interface TweetUrl {
+  url: string;         // t.co短縮URL
+  expandedUrl: string; // 展開後のリンク先
+  displayUrl?: string;
+}
+
+export interface QuotedTweet {
+  id?: string;
+  permalink?: string;
+  author: string;
+  text: string;
+  timestamp?: string;
+}
+
+export interface TweetPoll {
+  options: TweetPollOption[];
+  totalVotes?: number;
+  isClosed: boolean;  // 投票終了（最終結果）
+  endsAt?: string;    // 終了日時（ISO-8601、GraphQLで取得できた場合）
+}
+
+export interface TweetPollOption {
+  label: string;
+  percentage?: number; // 得票率（%、結果が表示されている場合）
+  votes?: number;
+}
+
+export interface TweetCard {
+  title?: string;
+  domain?: string;
+  url: string;         // リンク先（展開できない場合はt.co短縮URL）
+  description?: string;
+}
+
+export interface CommunityNote {
+  text: string;
+  status: 'shown' | 'unknown'; // shown: 評価が確定し表示中のノート
+  noteId?: string;
 }
 
 export interface UserProfile {
@@ -22,6 +98,25 @@ export interface UserProfile {
   tweets: number;
   verified: boolean;
   profileImageUrl?: string;
+  bannerImageUrl?: string;
+  location?: string;
+  website?: string;
+  joinDate?: string;      // YYYY-MM（解析できない場合は表示テキスト）
+  birthday?: string;
+  professionalCategory?: string;
+}
+
+export type UserListType = 'followers' | 'verified_followers' | 'following' | 'search_people';
+
+export interface UserListEntry {
+  username: string;
+  displayName: string;
+  bio: string;            // 一覧に表示される自己紹介の抜粋
+  verified: boolean;
+  followsYou: boolean;    // 「フォローされています」バッジ
+  profileImageUrl?: string;
+  sourceUser: string;     // 一覧の取得元アカウント（検索の場合は検索クエリ）
+  listType: UserListType;
 }
 
 export interface SheetData {
@@ -48,6 +143,13 @@ export interface ExportResult {
   url: string;
 }
 
+export interface ConversationThread {
+  root: Tweet;
+  ancestors: Tweet[];   // 開いたツイートより上に表示される返信元
+  selfThread: Tweet[];  // 投稿者自身による連続スレッド
+  replies: Tweet[];     // その他の返信（inReplyToId / depth でツリーを復元可能）
+}
+
 export interface MCPResponse {
   content: Array<{
     type: "text";
@@ -56,6 +158,110 @@ export interface MCPResponse {
   // データ返却用の拡張
   tweets?: Tweet[];
   profile?: UserProfile;
+  thread?: ConversationThread;
+  users?: UserListEntry[];
+  searchQuery?: string;
+  cursor?: CollectionCursor;
+  stopReason?: CollectionStopReason;
+  fetchResults?: TweetFetchResult[];
+  tabs?: BrowserTabInfo[];
+  images?: MCPImageContent[]; // MCPの image コンテンツとしてテキストの後に返す
+  page?: PageSnapshot;
+  budget?: RequestBudgetStatus;
+  pageState?: PageState;
+  handoff?: HandoffResult;
+  login?: LoginStatus;
+  session?: SessionTransferResult;
+  savedPath?: string;          // 保存したスクリーンショットのパス
+  exportResult?: ExportResult;
+  spreadsheet?: SheetInfo;
+  drives?: SharedDriveInfo[];
+  files?: DriveFileInfo[];     // 一覧取得の結果
+  file?: DriveFileInfo;        // 作成・アップロードしたファイル
+}
+
+export interface SessionTransferResult {
+  filePath: string;
+  cookieCount: number;
+  localStorageCount: number;
+  exportedAt: string;
+}
+
+/**
+ * ログイン状態（logged_in はログイン済みでのみ表示される要素を確認できた場合のみ）
+ */
+export type LoginState = 'logged_in' | 'login_required' | 'unknown';
+
+export interface LoginStatus {
+  state: LoginState;
+  account?: string;    // ログイン中のハンドル（@なし）
+  timedOut?: boolean;  // wait_for_login がタイムアウトしたか
+  waitedSeconds?: number;
+}
+
+/**
+ * 人間への操作の引き継ぎ結果
+ */
+export type HandoffOutcome = 'resumed' | 'aborted' | 'timed_out';
+
+export interface HandoffResult {
+  outcome: HandoffOutcome;
+  channel: 'control_page' | 'signal_file' | 'timeout' | 'shutdown'; // 結果を受け付けた経路
+  waitedSeconds: number;
+}
+
+/**
+ * 移動後のページの状態（ok 以外は収集対象を表示できていない）
+ */
+export type PageState =
+  | 'ok'
+  | 'not_found'
+  | 'suspended'
+  | 'protected'
+  | 'login_required'
+  | 'rate_limited'
+  | 'age_restricted';
+
+export interface MCPImageContent {
+  type: "image";
+  data: string;     // base64
+  mimeType: string;
+}
+
+export interface ScreenshotOptions {
+  filename?: string;   // 指定時は出力ディレクトリに保存
+  save?: boolean;      // ファイル名未指定でも保存する（自動命名）
+  tweetId?: string;    // このツイートのみを切り出す
+  selector?: string;   // このCSSセレクタの要素のみを切り出す
+  fullPage?: boolean;  // ページ全体（既定は表示領域のみ）
+  tabId?: string;
+}
+
+/**
+ * read_page で読み取ったページの内容（メインカラムの表示テキストとリンク）
+ */
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  text: string;
+  truncated: boolean; // maxChars で本文を切り詰めたか
+  links: PageLink[];
+}
+
+export interface PageLink {
+  text: string;
+  url: string;
+}
+
+/**
+ * URL指定のツイート取得結果（URLごとに成功・失敗を記録）
+ */
+export interface TweetFetchResult {
+  url: string;
+  status: 'ok' | 'error';
+  tweet?: Tweet;
+  error?: string;
+  pageState?: PageState;
 }
 
 export interface BrowserConfig {
@@ -63,17 +269,123 @@ export interface BrowserConfig {
   viewportWidth?: number;
   viewportHeight?: number;
   headless?: boolean;
+  profile?: string;  // 永続プロファイル名（未指定時は使い捨てプロファイル）
+  budget?: Partial<RequestBudgetLimits>;
+}
+
+/**
+ * ページ読み込み・スクロールの回数上限（ブラウザセッション内の全タブで共有）
+ */
+export interface RequestBudgetLimits {
+  perMinute: number;
+  perHour: number;
+  perDay: number;
+}
+
+// X側で検出した制限・エラー画面
+export type BlockedScreen = 'rate_limited' | 'error';
+
+export interface RequestBudgetStatus {
+  limits: RequestBudgetLimits;
+  remaining: RequestBudgetLimits;
+  cooldownUntil?: string;      // クールダウン終了日時（ISO-8601、クールダウン中のみ）
+  cooldownReason?: BlockedScreen;
+  blockedCount: number;        // 連続で制限・エラー画面を検出した回数
+}
+
+export interface BrowserTabInfo {
+  tabId: string;
+  url: string;
+  title: string;
+  isolated: boolean; // 別アカウント用にCookieを分離したタブか
+  active: boolean;
+  createdAt: string;
 }
 
 export interface CollectionConfig {
   maxTweets?: number;
   scrollDelay?: number;
   readingTime?: number;
+  sinceLastRun?: boolean; // 前回収集済みのツイートに到達したら停止
+  extractionMode?: ExtractionMode;
+  since?: string;         // この日時より古いツイートに到達したら停止（ISO-8601 または YYYY-MM-DD）
+  until?: string;         // この日時より新しいツイートは除外
+  stallLimit?: number;    // 新しいツイートが出ないスクロールが何回続いたら停止するか
+  maxScrolls?: number;    // スクロール回数の安全上限
+  timeZone?: string;      // 相対・絶対表記のタイムスタンプを解釈するタイムゾーン（IANA名）
+  includePromoted?: boolean;  // 広告を収集対象に含めるか（既定: false）
+  includePinned?: boolean;    // 固定ツイートを含めるか（既定: true）
+  includeSensitive?: boolean; // センシティブな内容の警告付きツイートを含めるか（既定: true）
+  revealSensitive?: boolean;  // 警告をクリックして本文・メディアを表示してから抽出するか（既定: false）
+  resume?: boolean;           // 中断時のチェックポイントから収集を再開するか
+}
+
+export type CollectionStopReason =
+  | 'max_tweets'
+  | 'date_bound'
+  | 'known_tweets'
+  | 'stalled'
+  | 'end_of_timeline'
+  | 'scroll_limit'
+  | 'rate_limited'
+  | 'error';
+
+// network: GraphQLレスポンスを解析（取得できない場合はDOMにフォールバック） / dom: DOMのみ
+export type ExtractionMode = 'network' | 'dom';
+
+export interface CollectionCursor {
+  key: string;            // 収集対象（アカウントのタブ・検索クエリ等）
+  newestId: string;
+  newestTimestamp: string;
+  updatedAt: string;
+  lastRunCount: number;
+}
+
+export interface CollectionCheckpoint {
+  key: string;       // カーソルと同じ収集対象キー
+  url: string;
+  tweets: Tweet[];   // 中断までに収集したツイート
+  updatedAt: string;
+}
+
+export interface ThreadConfig {
+  url: string;
+  maxReplies?: number;
+  includeHiddenReplies?: boolean;
+  scrollDelay?: number;
+  readingTime?: number;
+}
+
+export interface UserListConfig {
+  username: string;
+  listType: Exclude<UserListType, 'search_people'>;
+  maxUsers?: number;
+  scrollDelay?: number;
+  readingTime?: number;
 }
 
+export type SearchTab = 'top' | 'latest' | 'people' | 'media';
+
+export type SearchFilter = 'media' | 'images' | 'videos' | 'links' | 'replies' | 'quote';
+
 export interface SearchConfig {
-  query: string;
+  query?: string;
   maxResults?: number;
+  // 検索演算子（X検索構文に変換される）
+  fromUsers?: string[];
+  toUsers?: string[];
+  mentioning?: string[];
+  since?: string;          // YYYY-MM-DD
+  until?: string;          // YYYY-MM-DD
+  minFaves?: number;
+  minRetweets?: number;
+  minReplies?: number;
+  lang?: string;
+  filters?: SearchFilter[];
+  excludeFilters?: SearchFilter[];
+  excludeWords?: string[];
+  tab?: SearchTab;
+  sinceLastRun?: boolean;
 }
 
 // Google Sheets関連の型
@@ -0,0 +1,54 @@
+// src/utils/domain-allowlist.test.ts
+// 汎用ナビゲーションのURL補完と許可ドメイン判定のテーブル
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ALLOWED_DOMAINS, isAllowedUrl, normalizeNavigationUrl } from './domain-allowlist.js';
+
+test('normalizeNavigationUrl', async t => {
+  const cases: Array<[string, string]> = [
+    ['/explore', 'https://x.com/explore'],
+    ['  /i/lists/123 ', 'https://x.com/i/lists/123'],
+    ['x.com/home', 'https://x.com/home'],
+    ['twitter.com', 'https://twitter.com'],
+    ['https://x.com/alice', 'https://x.com/alice'],
+    ['javascript:alert(1)', 'javascript:alert(1)']
+  ];
+
+  for (const [input, expected] of cases) {
+    await t.test(JSON.stringify(input), () => {
+      assert.equal(normalizeNavigationUrl(input), expected);
+    });
+  }
+});
+
+test('isAllowedUrl（既定の許可ドメイン）', async t => {
+  const cases: Array<[string, boolean]> = [
+    ['https://x.com/home', true],
+    ['https://twitter.com/alice', true],
+    ['http://x.com/', true],
+    ['https://mobile.x.com/home', true],          // サブドメイン
+    ['https://X.COM/home', true],
+    ['https://evilx.com/', false],                // 末尾一致だけのドメインは不可
+    ['https://x.com.evil.com/', false],
+    ['https://x.com@evil.com/', false],           // ユーザー情報部分の偽装
+    ['javascript:alert(1)', false],
+    ['file:///etc/passwd', false],
+    ['x.com', false],                             // スキームなしは正規化してから判定する
+    ['/explore', false],
+    [normalizeNavigationUrl('x.com'), true],
+    [normalizeNavigationUrl('/explore'), true],
+    [normalizeNavigationUrl('x.com@evil.com'), false]
+  ];
+
+  for (const [url, expected] of cases) {
+    await t.test(url, () => {
+      assert.equal(isAllowedUrl(url, DEFAULT_ALLOWED_DOMAINS), expected);
+    });
+  }
+});
+
+test('isAllowedUrl（指定した許可ドメイン）', () => {
+  assert.equal(isAllowedUrl('https://example.com/', ['example.com']), true);
+  assert.equal(isAllowedUrl('https://x.com/home', ['example.com']), false);
+});
@@ -0,0 +1,59 @@
+// src/utils/domain-allowlist.ts
+// 汎用ナビゲーションで移動できるドメインの制限
+
+export const DEFAULT_ALLOWED_DOMAINS = ['x.com', 'twitter.com'];
+
+/**
+ * 移動を許可するドメイン（X_COLLECTOR_ALLOWED_DOMAINS にカンマ区切りで指定、既定は x.com / twitter.com）
+ * サブドメイン（mobile.x.com 等）も許可される
+ */
+export function getAllowedDomains(): string[] {
+  const configured = (process.env.X_COLLECTOR_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^\.+/, ''))
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_ALLOWED_DOMAINS;
+}
+
+/**
+ * URLを正規化（"/explore" のようなパスや "x.com/..." はhttps://x.com 基準で補完）
+ */
+export function normalizeNavigationUrl(input: string): string {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('/')) {
+    return `https://x.com${trimmed}`;
+  }
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+    return `https://${trimmed}`;
+  }
+  return trimmed;
+}
+
+/**
+ * 許可リストに含まれるhttp(s)のURLか
+ */
+export function isAllowedUrl(url: string, allowedDomains: string[] = getAllowedDomains()): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
+
+  const host = parsed.hostname.toLowerCase();
+  return allowedDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * 許可リスト外のURLならエラー
+ */
+export function assertAllowedUrl(url: string): void {
+  const allowedDomains = getAllowedDomains();
+  if (!isAllowedUrl(url, allowedDomains)) {
+    throw new Error(
+      `このURLへの移動は許可されていません: ${url}\n` +
+      `許可されているドメイン: ${allowedDomains.join(', ')}（X_COLLECTOR_ALLOWED_DOMAINS で変更できます）`
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// src/utils/graphql-parser.test.ts
+// 保存済みのGraphQLレスポンス（test/fixtures/graphql）で parseGraphQLResponse を検証
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { getGraphQLOperationName, parseGraphQLResponse } from './graphql-parser.js';
+
+const FIXTURE_DIR = new URL('../../test/fixtures/graphql/', import.meta.url);
+
+function loadFixture(operation: string): unknown {
+  return JSON.parse(readFileSync(new URL(`${operation}.json`, FIXTURE_DIR), 'utf8'));
+}
+
+test('UserTweets: 固定・リポスト・メディアを抽出し、legacy のない結果と削除済みツイートを除外する', () => {
+  const { tweets } = parseGraphQLResponse(loadFixture('UserTweets'));
+
+  assert.deepEqual(tweets.map(tweet => tweet.id), ['1800000000000000001', '1799999999999999999', '1800000000000000005']);
+
+  const [pinned, repost, photo] = tweets;
+  assert.equal(pinned.isPinned, true);
+  assert.equal(pinned.author, 'alice');
+  assert.equal(pinned.permalink, 'https://x.com/alice/status/1800000000000000001');
+  assert.equal(pinned.timestamp, '2024-06-10T01:00:00.000Z');
+  assert.equal(pinned.views, 5000);
+  assert.equal(pinned.source, 'Twitter Web App');
+  assert.deepEqual(pinned.hashtags, ['pinned']);
+
+  // リポストは元ツイートの内容と投稿者を記録し、リポストしたユーザーを付記
+  assert.equal(repost.isRetweet, true);
+  assert.equal(repost.author, 'bob');
+  assert.equal(repost.repostedBy, 'alice');
+  assert.equal(repost.text, '元の投稿');
+  assert.equal(repost.likes, 100);
+
+  assert.deepEqual(photo.media, [{ type: 'photo', url: 'https://pbs.twimg.com/media/photo.jpg', altText: '猫' }]);
+});
+
+test('SearchTimeline: 引用・表示制限ラッパー・広告を抽出する', () => {
+  const { tweets } = parseGraphQLResponse(loadFixture('SearchTimeline'));
+
+  assert.deepEqual(tweets.map(tweet => tweet.id), ['1810000000000000001', '1810000000000000002', '1810000000000000003']);
+
+  const [quote, limited, promoted] = tweets;
+  assert.equal(quote.isQuote, true);
+  assert.deepEqual(quote.quotedTweet, {
+    id: '1809999999999999999',
+    permalink: 'https://x.com/dave/status/1809999999999999999',
+    author: 'dave',
+    text: '引用元の投稿',
+    timestamp: '2024-06-30T12:00:00.000Z'
+  });
+  assert.equal(quote.urls?.[0].expandedUrl, 'https://x.com/dave/status/1809999999999999999');
+
+  // TweetWithVisibilityResults は内側のツイートを取り出す（旧形式の legacy.screen_name にも対応）
+  assert.equal(limited.author, 'erin');
+  assert.equal(limited.text, '表示制限付きの投稿');
+  assert.equal(limited.isSensitive, true);
+
+  assert.equal(promoted.isPromoted, true);
+  assert.equal(quote.isPromoted, false);
+});
+
+test('TweetDetail: 返信の返信元IDを保持し、凍結アカウントのツイートを除外する', () => {
+  const { tweets } = parseGraphQLResponse(loadFixture('TweetDetail'));
+
+  assert.deepEqual(tweets.map(tweet => tweet.id), ['1820000000000000001', '1820000000000000002']);
+  assert.equal(tweets[0].inReplyToId, undefined);
+  assert.equal(tweets[1].inReplyToId, '1820000000000000001');
+  assert.equal(tweets[1].text, '@frank ok');
+  assert.deepEqual(tweets[1].mentions, ['frank']);
+});
+
+test('getGraphQLOperationName: 対象のオペレーションのみ名前を返す', () => {
+  assert.equal(getGraphQLOperationName('https://x.com/i/api/graphql/abc123/UserTweets?variables=%7B%7D'), 'UserTweets');
+  assert.equal(getGraphQLOperationName('https://x.com/i/api/graphql/abc123/TweetDetail'), 'TweetDetail');
+  assert.equal(getGraphQLOperationName('https://x.com/i/api/graphql/abc123/CreateTweet'), null);
+  assert.equal(getGraphQLOperationName('https://x.com/home'), null);
+});
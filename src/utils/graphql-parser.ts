@@ -0,0 +1,315 @@
+// src/utils/graphql-parser.ts
+// XのGraphQLタイムラインレスポンス（UserTweets, SearchTimeline, TweetDetail 等）を
+// Tweet / UserProfile に変換する純粋関数群（ブラウザ非依存のため保存済みJSONで検証可能）
+
+import { Tweet, TweetMedia, TweetUrl, QuotedTweet, TweetPoll, TweetPollOption, TweetCard, CommunityNote, UserProfile } from '../types/interfaces.js';
+
+/**
+ * 取得対象とするGraphQLオペレーション
+ */
+export const GRAPHQL_TIMELINE_OPERATIONS = [
+  'UserTweets',
+  'UserTweetsAndReplies',
+  'UserMedia',
+  'UserHighlightsTweets',
+  'Likes',
+  'SearchTimeline',
+  'TweetDetail',
+  'TweetResultByRestId',
+  'HomeTimeline',
+  'HomeLatestTimeline',
+  'ListLatestTweetsTimeline',
+  'UserByScreenName',
+  'Followers',
+  'BlueVerifiedFollowers',
+  'Following'
+] as const;
+
+export interface ParsedGraphQLResponse {
+  tweets: Tweet[];
+  users: UserProfile[];
+}
+
+/**
+ * GraphQLのURLからオペレーション名を取得（対象外ならnull）
+ */
+export function getGraphQLOperationName(url: string): string | null {
+  const match = url.match(/\/i\/api\/graphql\/[^/]+\/([A-Za-z]+)/);
+  if (!match) return null;
+  return (GRAPHQL_TIMELINE_OPERATIONS as readonly string[]).includes(match[1]) ? match[1] : null;
+}
+
+/**
+ * レスポンスJSON全体を走査してツイートとユーザーを抽出
+ */
+export function parseGraphQLResponse(json: unknown): ParsedGraphQLResponse {
+  const tweets = new Map<string, Tweet>();
+  const users = new Map<string, UserProfile>();
+
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+
+    const record = node as Record<string, any>;
+
+    if (record.tweet_results?.result) {
+      const tweet = parseTweetResult(record.tweet_results.result);
+      if (tweet) {
+        // 固定・広告はタイムラインエントリ側（socialContext / promotedMetadata）で示される
+        if (record.socialContext?.contextType === 'Pin') tweet.isPinned = true;
+        if (record.promotedMetadata) tweet.isPromoted = true;
+        const existing = tweets.get(tweet.id);
+        if (!existing) {
+          tweets.set(tweet.id, tweet);
+        } else {
+          existing.isPinned = existing.isPinned || tweet.isPinned;
+          existing.isPromoted = existing.isPromoted || tweet.isPromoted;
+        }
+      }
+    }
+
+    if (record.user_results?.result) {
+      const user = parseUserResult(record.user_results.result);
+      if (user && !users.has(user.username)) users.set(user.username, user);
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      // ツイート内部（引用・リポスト元）は parseTweetResult 側で処理済み
+      if (key === 'tweet_results' || key === 'user_results') continue;
+      visit(value);
+    }
+  };
+
+  visit(json);
+  return { tweets: [...tweets.values()], users: [...users.values()] };
+}
+
+/**
+ * tweet_results.result を Tweet に変換
+ */
+export function parseTweetResult(result: any): Tweet | null {
+  const tweet = unwrapTweet(result);
+  const legacy = tweet?.legacy;
+  // legacy のない結果（本文を含まない軽量版）は変換できないため除外
+  if (!legacy || (!legacy.id_str && !tweet.rest_id)) return null;
+
+  // リポストは元ツイートの内容（author は元の投稿者）を記録し、リポストしたユーザーを付記
+  const retweeted = unwrapTweet(legacy.retweeted_status_result?.result);
+  if (retweeted?.legacy) {
+    const original = parseTweetResult(retweeted);
+    if (!original) return null;
+    return {
+      ...original,
+      isRetweet: true,
+      repostedBy: getScreenName(tweet.core?.user_results?.result) || undefined
+    };
+  }
+
+  const id: string = legacy.id_str || tweet.rest_id;
+  const author = getScreenName(tweet.core?.user_results?.result);
+  const entities = legacy.entities || {};
+  const noteText: string | undefined = tweet.note_tweet?.note_tweet_results?.result?.text;
+
+  const quoted = unwrapTweet(tweet.quoted_status_result?.result);
+  let quotedTweet: QuotedTweet | undefined;
+  if (quoted?.legacy) {
+    const quotedAuthor = getScreenName(quoted.core?.user_results?.result);
+    quotedTweet = {
+      id: quoted.legacy.id_str,
+      permalink: quotedAuthor ? `https://x.com/${quotedAuthor}/status/${quoted.legacy.id_str}` : undefined,
+      author: quotedAuthor,
+      text: quoted.note_tweet?.note_tweet_results?.result?.text || quoted.legacy.full_text || '',
+      timestamp: toIsoString(quoted.legacy.created_at)
+    };
+  }
+
+  const urls = (entities.urls || []).map((url: any): TweetUrl => ({
+    url: url.url,
+    expandedUrl: url.expanded_url || url.url,
+    displayUrl: url.display_url
+  }));
+  const cardValues = getCardValues(tweet.card);
+  const cardName: string = tweet.card?.legacy?.name || '';
+
+  return {
+    id,
+    permalink: `https://x.com/${author || 'i/web'}/status/${id}`,
+    text: noteText || legacy.full_text || '',
+    timestamp: toIsoString(legacy.created_at) || '',
+    author,
+    likes: legacy.favorite_count ?? 0,
+    retweets: legacy.retweet_count ?? 0,
+    replies: legacy.reply_count ?? 0,
+    quotes: legacy.quote_count,
+    bookmarks: legacy.bookmark_count,
+    views: tweet.views?.count !== undefined ? Number(tweet.views.count) : undefined,
+    isRetweet: false,
+    isPinned: false,
+    isQuote: !!legacy.is_quote_status || !!quotedTweet,
+    isPromoted: false,
+    isSensitive: !!legacy.possibly_sensitive,
+    source: stripTags(tweet.source),
+    place: legacy.place?.full_name || undefined,
+    media: parseMedia(legacy.extended_entities?.media || entities.media || []),
+    urls,
+    hashtags: (entities.hashtags || []).map((tag: any) => tag.text),
+    mentions: (entities.user_mentions || []).map((mention: any) => mention.screen_name),
+    quotedTweet,
+    poll: /^poll\d+choice/.test(cardName) ? parsePollCard(cardValues) : undefined,
+    card: cardName && !/^poll\d+choice/.test(cardName) ? parseLinkCard(cardValues, tweet.card?.legacy?.url, urls) : undefined,
+    communityNote: parseCommunityNote(tweet.birdwatch_pivot),
+    inReplyToId: legacy.in_reply_to_status_id_str || undefined
+  };
+}
+
+/**
+ * card.legacy.binding_values（key/value配列）をオブジェクトに変換
+ */
+function getCardValues(card: any): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const binding of card?.legacy?.binding_values || []) {
+    const value = binding.value || {};
+    values[binding.key] = value.string_value ?? value.boolean_value ?? value.image_value?.url ?? value.user_value?.id_str;
+  }
+  return values;
+}
+
+/**
+ * アンケート（poll2choice_text_only 等）
+ */
+function parsePollCard(values: Record<string, any>): TweetPoll {
+  const options: TweetPollOption[] = [];
+  for (let i = 1; values[`choice${i}_label`] !== undefined; i++) {
+    options.push({
+      label: values[`choice${i}_label`],
+      votes: values[`choice${i}_count`] !== undefined ? Number(values[`choice${i}_count`]) : undefined
+    });
+  }
+
+  const totalVotes = options.reduce((sum, option) => sum + (option.votes ?? 0), 0);
+  options.forEach(option => {
+    if (option.votes !== undefined && totalVotes > 0) {
+      option.percentage = Math.round(option.votes / totalVotes * 1000) / 10;
+    }
+  });
+
+  return {
+    options,
+    totalVotes,
+    isClosed: values.counts_are_final === true || values.counts_are_final === 'true',
+    endsAt: values.end_datetime_utc || undefined
+  };
+}
+
+/**
+ * リンクカード（summary / summary_large_image 等）
+ */
+function parseLinkCard(values: Record<string, any>, cardUrl: string | undefined, urls: TweetUrl[]): TweetCard | undefined {
+  const shortUrl: string | undefined = values.card_url || cardUrl;
+  if (!shortUrl) return undefined;
+
+  return {
+    title: values.title || undefined,
+    domain: values.domain || values.vanity_url || undefined,
+    url: urls.find(url => url.url === shortUrl)?.expandedUrl || shortUrl,
+    description: values.description || undefined
+  };
+}
+
+/**
+ * コミュニティノート（birdwatch_pivot）
+ */
+function parseCommunityNote(pivot: any): CommunityNote | undefined {
+  const text: string | undefined = pivot?.subtitle?.text || pivot?.note?.summary?.text;
+  if (!text) return undefined;
+
+  return {
+    text,
+    status: pivot.title || pivot.shorttitle ? 'shown' : 'unknown',
+    noteId: pivot.note?.rest_id || undefined
+  };
+}
+
+/**
+ * user_results.result を UserProfile に変換
+ */
+export function parseUserResult(result: any): UserProfile | null {
+  if (!result || result.__typename === 'UserUnavailable') return null;
+
+  const legacy = result.legacy || {};
+  const username = getScreenName(result);
+  if (!username) return null;
+
+  const website: string | undefined = legacy.entities?.url?.urls?.[0]?.expanded_url;
+  const birthdate = result.legacy_extended_profile?.birthdate;
+
+  return {
+    username,
+    displayName: result.core?.name || legacy.name || '',
+    bio: result.profile_bio?.description || legacy.description || '',
+    followers: legacy.followers_count ?? 0,
+    following: legacy.friends_count ?? 0,
+    tweets: legacy.statuses_count ?? 0,
+    verified: !!(result.is_blue_verified || legacy.verified || result.verification?.verified),
+    profileImageUrl: result.avatar?.image_url || legacy.profile_image_url_https || undefined,
+    bannerImageUrl: legacy.profile_banner_url || undefined,
+    location: result.location?.location || legacy.location || undefined,
+    website,
+    joinDate: toYearMonth(result.core?.created_at || legacy.created_at),
+    birthday: birthdate
+      ? [birthdate.year, birthdate.month, birthdate.day].filter(v => v !== undefined).join('-')
+      : undefined,
+    professionalCategory: result.professional?.category?.[0]?.name || undefined
+  };
+}
+
+/**
+ * 可視性ラッパー（TweetWithVisibilityResults）を外す
+ */
+function unwrapTweet(result: any): any {
+  if (!result) return null;
+  if (result.__typename === 'TweetWithVisibilityResults' && result.tweet) return result.tweet;
+  if (result.__typename === 'TweetTombstone' || result.__typename === 'TweetUnavailable') return null;
+  return result;
+}
+
+/**
+ * スクリーンネーム（新旧どちらのレスポンス形式にも対応）
+ */
+function getScreenName(user: any): string {
+  return user?.core?.screen_name || user?.legacy?.screen_name || '';
+}
+
+/**
+ * source（"<a href=...>Twitter for iPhone</a>"）からクライアント名を取得
+ */
+function stripTags(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  return html.replace(/<[^>]*>/g, '').trim() || undefined;
+}
+
+function parseMedia(media: any[]): TweetMedia[] {
+  return media.map((item: any): TweetMedia => ({
+    type: item.type === 'animated_gif' ? 'gif' : item.type === 'video' ? 'video' : 'photo',
+    url: item.media_url_https || item.media_url || '',
+    altText: item.ext_alt_text || undefined
+  }));
+}
+
+/**
+ * "Wed Oct 10 20:19:24 +0000 2018" 形式をISO-8601に変換
+ */
+function toIsoString(createdAt: string | undefined): string | undefined {
+  if (!createdAt) return undefined;
+  const date = new Date(createdAt);
+  return isNaN(date.getTime()) ? createdAt : date.toISOString();
+}
+
+function toYearMonth(createdAt: string | undefined): string | undefined {
+  const iso = toIsoString(createdAt);
+  return iso && /^\d{4}-\d{2}/.test(iso) ? iso.slice(0, 7) : undefined;
+}
@@ -0,0 +1,81 @@
+// src/utils/locale-parser.test.ts
+// 日本語・英語UIの件数表記とタイムスタンプの解析テーブル
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NumberLocale, parseCount, parseEngagementLabel, normalizeTimestamp } from './locale-parser.js';
+
+test('parseCount', async t => {
+  const cases: Array<[string, NumberLocale, number]> = [
+    ['1.2万', 'auto', 12000],
+    ['1,5万', 'auto', 15000],
+    ['3億', 'auto', 300000000],
+    ['1,234', 'auto', 1234],
+    ['１，２３４', 'auto', 1234],
+    ['1.234,5', 'auto', 1235],   // 小数は四捨五入
+    ['1.234', 'period', 1234],
+    ['1,234.5', 'comma', 1235],
+    ['1.2K', 'auto', 1200],
+    ['3.4M', 'auto', 3400000],
+    ['2 bookmarks', 'auto', 2],   // 英単語の先頭は接尾辞とみなさない
+    ['42', 'auto', 42],
+    ['', 'auto', 0]
+  ];
+
+  for (const [text, locale, expected] of cases) {
+    await t.test(`${JSON.stringify(text)} (${locale})`, () => {
+      assert.equal(parseCount(text, locale), expected);
+    });
+  }
+});
+
+test('parseEngagementLabel', async t => {
+  const cases: Array<[string, ReturnType<typeof parseEngagementLabel>]> = [
+    [
+      '12 件の返信、3 件のリポスト、45 件のいいね、6 件のブックマーク、1234 件の表示',
+      { replies: 12, retweets: 3, likes: 45, bookmarks: 6, views: 1234 }
+    ],
+    [
+      '12 replies, 3 reposts, 45 likes, 2 bookmarks, 1234 views',
+      { replies: 12, retweets: 3, likes: 45, bookmarks: 2, views: 1234 }
+    ],
+    ['1,234 件のいいね', { likes: 1234 }],
+    ['1.2万 件の表示', { views: 12000 }],
+    ['1234 Likes. Like', { likes: 1234 }],
+    ['', {}]
+  ];
+
+  for (const [label, expected] of cases) {
+    await t.test(JSON.stringify(label), () => {
+      assert.deepEqual(parseEngagementLabel(label), expected);
+    });
+  }
+});
+
+test('normalizeTimestamp', async t => {
+  // 基準: 2024-06-15 12:00（Asia/Tokyo）
+  const options = { now: new Date('2024-06-15T03:00:00.000Z'), timeZone: 'Asia/Tokyo' };
+  const cases: Array<[string, string]> = [
+    ['2024-06-01T10:00:00.000Z', '2024-06-01T10:00:00.000Z'],
+    ['たった今', '2024-06-15T03:00:00.000Z'],
+    ['5m', '2024-06-15T02:55:00.000Z'],
+    ['3時間', '2024-06-15T00:00:00.000Z'],
+    ['2日前', '2024-06-13T03:00:00.000Z'],
+    ['Mar 5', '2024-03-05T00:00:00+09:00'],
+    ['Dec 24', '2023-12-24T00:00:00+09:00'],     // 未来になる日付は前年
+    ['Mar 5, 2023', '2023-03-05T00:00:00+09:00'],
+    ['3月5日', '2024-03-05T00:00:00+09:00'],
+    ['2024年3月5日', '2024-03-05T00:00:00+09:00'],
+    ['午前9:15', '2024-06-15T09:15:00+09:00'],
+    ['午後10:30', '2024-06-14T22:30:00+09:00'],  // 未来になる時刻は前日
+    ['午後10:30 · 2024年3月5日', '2024-03-05T22:30:00+09:00'],
+    ['10:30 PM · Mar 5, 2024', '2024-03-05T22:30:00+09:00'],
+    ['昨日', '昨日']                              // 解釈できない表記はそのまま
+  ];
+
+  for (const [text, expected] of cases) {
+    await t.test(JSON.stringify(text), () => {
+      assert.equal(normalizeTimestamp(text, options), expected);
+    });
+  }
+});
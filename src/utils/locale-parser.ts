@@ -0,0 +1,265 @@
+// src/utils/locale-parser.ts
+// 日本語・英語UIの件数表記とタイムスタンプをロケールに依存せず解析する
+
+/**
+ * 数値の区切り記号の解釈
+ * - auto: 「1,234」「1.2K」のように推定（3桁区切りの単独の . / , は桁区切りとみなす）
+ * - comma: 1,234.5（英語・日本語）
+ * - period: 1.234,5（ドイツ語など）
+ */
+export type NumberLocale = 'auto' | 'comma' | 'period';
+
+/**
+ * 件数表記の接尾辞と倍率
+ */
+const COUNT_MULTIPLIERS: Record<string, number> = {
+  K: 1e3,
+  M: 1e6,
+  B: 1e9,
+  千: 1e3,
+  万: 1e4,
+  億: 1e8
+};
+
+/**
+ * aria-label の指標名（日本語・英語）
+ */
+const ENGAGEMENT_KEYWORDS: Record<EngagementMetric, RegExp> = {
+  replies: /(?:replies|reply|件の返信|返信)/i,
+  retweets: /(?:reposts?|retweets?|件のリポスト|リポスト|リツイート)/i,
+  quotes: /(?:quotes?|件の引用|引用)/i,
+  likes: /(?:likes?|件のいいね|いいね)/i,
+  bookmarks: /(?:bookmarks?|件のブックマーク|ブックマーク)/i,
+  views: /(?:views?|件の表示|表示)/i
+};
+
+export type EngagementMetric = 'replies' | 'retweets' | 'quotes' | 'likes' | 'bookmarks' | 'views';
+
+/**
+ * 「1,234」「1.2K」「1.2万」「3億」「1.234,5」などを数値に変換
+ */
+export function parseCount(text: string, locale: NumberLocale = 'auto'): number {
+  if (!text || typeof text !== 'string') return 0;
+
+  const normalized = text
+    .normalize('NFKC')        // 全角数字・記号を半角に
+    .replace(/[\u00a0\u202f]/g, ' ');
+
+  // 接尾辞の直後に英字が続く場合（"2 bookmarks" の b 等）は接尾辞とみなさない
+  const match = normalized.match(/(\d[\d.,]*\d|\d)\s*([KMBkmb千万億](?![A-Za-z]))?/);
+  if (!match) return 0;
+
+  const numeric = normalizeNumber(match[1], locale, !!match[2]);
+  const multiplier = match[2] ? COUNT_MULTIPLIERS[match[2].toUpperCase()] || COUNT_MULTIPLIERS[match[2]] : 1;
+
+  return Math.round(numeric * multiplier);
+}
+
+/**
+ * 区切り記号を解釈して小数を得る
+ */
+function normalizeNumber(value: string, locale: NumberLocale, hasSuffix: boolean): number {
+  if (locale === 'comma') return parseFloat(value.replace(/,/g, ''));
+  if (locale === 'period') return parseFloat(value.replace(/\./g, '').replace(',', '.'));
+
+  const lastComma = value.lastIndexOf(',');
+  const lastPeriod = value.lastIndexOf('.');
+
+  // 両方ある場合は後ろにある方が小数点
+  if (lastComma >= 0 && lastPeriod >= 0) {
+    return lastComma > lastPeriod
+      ? parseFloat(value.replace(/\./g, '').replace(',', '.'))
+      : parseFloat(value.replace(/,/g, ''));
+  }
+
+  const separator = lastComma >= 0 ? ',' : lastPeriod >= 0 ? '.' : null;
+  if (!separator) return parseFloat(value);
+
+  const groups = value.split(separator);
+  // 「1,234」「1.234.567」は桁区切り、「1.2K」「1,5万」は小数点
+  const isGrouping = !hasSuffix && groups.slice(1).every(group => group.length === 3);
+  return isGrouping
+    ? parseFloat(groups.join(''))
+    : parseFloat(value.replace(separator, '.'));
+}
+
+/**
+ * ツイートのエンゲージメント aria-label を解析
+ * 例: "12 件の返信、3 件のリポスト、45 件のいいね、1234 件の表示"
+ *     "12 replies, 3 reposts, 45 likes, 2 bookmarks, 1234 views"
+ *     "1,234 件のいいね" / "1234 Likes. Like"（ボタン単体）
+ */
+export function parseEngagementLabel(label: string, locale: NumberLocale = 'auto'): Partial<Record<EngagementMetric, number>> {
+  const result: Partial<Record<EngagementMetric, number>> = {};
+  if (!label) return result;
+
+  // 「、」またはスペースを伴う「, 」「. 」で区切る（「1,234」の桁区切りは分割しない）
+  const segments = label.normalize('NFKC').split(/、|[,，]\s+|[.。]\s+/);
+
+  for (const segment of segments) {
+    if (!/\d/.test(segment)) continue;
+    const metric = (Object.keys(ENGAGEMENT_KEYWORDS) as EngagementMetric[])
+      .find(key => ENGAGEMENT_KEYWORDS[key].test(segment));
+    if (metric && result[metric] === undefined) {
+      result[metric] = parseCount(segment, locale);
+    }
+  }
+
+  return result;
+}
+
+export interface TimestampOptions {
+  timeZone?: string; // 絶対日付（「3月5日」など）を解釈するタイムゾーン
+  now?: Date;        // 相対時刻の基準
+}
+
+/**
+ * 既定のタイムゾーン（X_COLLECTOR_TIMEZONE、未設定ならシステム設定）
+ */
+export function getDefaultTimeZone(): string {
+  return process.env.X_COLLECTOR_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * IANAタイムゾーン名として有効か
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 相対・絶対のタイムスタンプ表記をISO-8601に正規化（解釈できない場合は元の文字列）
+ * 例: "2025-06-15T10:00:00.000Z", "5m", "3時間", "2日前", "たった今", "午後10:30", "Mar 5", "Mar 5, 2024", "3月5日", "2024年3月5日"
+ */
+export function normalizeTimestamp(text: string, options: TimestampOptions = {}): string {
+  if (!text) return text;
+
+  const timeZone = options.timeZone || getDefaultTimeZone();
+  const now = options.now || new Date();
+  const value = text.normalize('NFKC').trim();
+
+  // ISO-8601（time要素のdatetime属性）
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? value : parsed.toISOString();
+  }
+
+  if (/^(now|たった今|今)$/i.test(value)) return now.toISOString();
+
+  // 相対時刻
+  const relative = value.match(/^(\d+)\s*(s|sec|secs|seconds?|秒|m|min|mins|minutes?|分|h|hr|hrs|hours?|時間|d|days?|日)(?:\s*(?:ago|前))?$/i);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    const unit = relative[2].toLowerCase();
+    const seconds =
+      /^(s|sec|秒)/.test(unit) ? 1 :
+      /^(m|min|分)/.test(unit) ? 60 :
+      /^(h|hr|hour|時間)/.test(unit) ? 3600 :
+      86400;
+    return new Date(now.getTime() - amount * seconds * 1000).toISOString();
+  }
+
+  // 時刻のみ（"午後10:30" / "10:30 PM"）は当日として解釈（未来になる場合は前日）
+  if (/^(午前|午後)?\s*\d{1,2}:\d{2}\s*(AM|PM)?$/i.test(value)) {
+    const { hour, minute } = parseTime(value);
+    const [year, month, day] = formatInZone(now, timeZone).slice(0, 10).split('-').map(Number);
+    const today = zonedDateToIso(year, month, day, hour, minute, timeZone);
+    if (Date.parse(today) <= now.getTime()) return today;
+    const yesterday = new Date(Date.UTC(year, month - 1, day - 1));
+    return zonedDateToIso(yesterday.getUTCFullYear(), yesterday.getUTCMonth() + 1, yesterday.getUTCDate(), hour, minute, timeZone);
+  }
+
+  // 絶対日付（年省略時は現在の年、未来になる場合は前年）
+  const date = parseAbsoluteDate(value);
+  if (date) {
+    const currentYear = Number(formatInZone(now, timeZone).slice(0, 4));
+    let year = date.year ?? currentYear;
+    if (date.year === undefined) {
+      const candidate = zonedDateToIso(year, date.month, date.day, date.hour, date.minute, timeZone);
+      if (Date.parse(candidate) > now.getTime()) year -= 1;
+    }
+    return zonedDateToIso(year, date.month, date.day, date.hour, date.minute, timeZone);
+  }
+
+  return text;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+interface AbsoluteDate {
+  year?: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * 時刻部分（"10:30 AM" / "午後10:30"）を24時間制で取得（含まない場合は 0:00）
+ */
+function parseTime(value: string): { hour: number; minute: number } {
+  const time = value.match(/(午前|午後)?\s*(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!time) return { hour: 0, minute: 0 };
+
+  const rawHour = parseInt(time[2], 10);
+  const marker = `${time[1] || ''}${time[4] || ''}`;
+  return {
+    hour: marker ? rawHour % 12 + (/(午後|PM)/i.test(marker) ? 12 : 0) : rawHour,
+    minute: parseInt(time[3], 10)
+  };
+}
+
+function parseAbsoluteDate(value: string): AbsoluteDate | null {
+  const { hour, minute } = parseTime(value);
+
+  const ja = value.match(/(?:(\d{4})年)?\s*(\d{1,2})月\s*(\d{1,2})日/);
+  if (ja) {
+    return { year: ja[1] ? parseInt(ja[1], 10) : undefined, month: parseInt(ja[2], 10), day: parseInt(ja[3], 10), hour, minute };
+  }
+
+  const enMonthFirst = value.match(/([A-Za-z]{3,})\.?\s+(\d{1,2})(?:,\s*(\d{4}))?/);
+  const enDayFirst = value.match(/(\d{1,2})\s+([A-Za-z]{3,})\.?(?:\s+(\d{4}))?/);
+  const en = enMonthFirst
+    ? { monthName: enMonthFirst[1], day: enMonthFirst[2], year: enMonthFirst[3] }
+    : enDayFirst ? { monthName: enDayFirst[2], day: enDayFirst[1], year: enDayFirst[3] } : null;
+  if (en) {
+    const month = MONTHS.indexOf(en.monthName.slice(0, 3).toLowerCase()) + 1;
+    if (month > 0) {
+      return { year: en.year ? parseInt(en.year, 10) : undefined, month, day: parseInt(en.day, 10), hour, minute };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 指定タイムゾーンでの日時を YYYY-MM-DDTHH:mm:ss 形式で取得
+ */
+function formatInZone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '00';
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}:${get('second')}`;
+}
+
+/**
+ * タイムゾーン上の壁時計時刻をオフセット付きISO-8601に変換
+ */
+function zonedDateToIso(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): string {
+  const wallClockUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // そのタイムゾーンでのUTCからのずれを求める
+  const offsetMinutes = Math.round((Date.parse(`${formatInZone(new Date(wallClockUtc), timeZone)}Z`) - wallClockUtc) / 60000);
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:00${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
@@ -0,0 +1,26 @@
+// src/utils/paths.ts
+// ローカルに保存するデータ（カーソル等）の保存先
+
+import os from 'os';
+import path from 'path';
+
+/**
+ * データ保存ディレクトリ（X_COLLECTOR_DATA_DIR で変更可能、既定は ~/.x-collector）
+ */
+export function getDataDir(): string {
+  return process.env.X_COLLECTOR_DATA_DIR || path.join(os.homedir(), '.x-collector');
+}
+
+/**
+ * データ保存ディレクトリ配下のパスを取得
+ */
+export function getDataPath(...segments: string[]): string {
+  return path.join(getDataDir(), ...segments);
+}
+
+/**
+ * スクリーンショットの保存先（X_COLLECTOR_SCREENSHOT_DIR で変更可能）
+ */
+export function getScreenshotDir(): string {
+  return process.env.X_COLLECTOR_SCREENSHOT_DIR || getDataPath('screenshots');
+}
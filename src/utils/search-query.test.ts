@@ -0,0 +1,64 @@
+// src/utils/search-query.test.ts
+// 構造化された検索条件から検索演算子・検索URLへの変換テーブル
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchConfig, SearchTab } from '../types/interfaces.js';
+import { buildSearchQuery, buildSearchUrl } from './search-query.js';
+
+test('buildSearchQuery', async t => {
+  const cases: Array<[SearchConfig, string]> = [
+    [{ query: '  猫  ' }, '猫'],
+    [{ fromUsers: ['@alice'] }, 'from:alice'],
+    [{ fromUsers: ['alice', 'bob'], toUsers: ['carol'] }, '(from:alice OR from:bob) to:carol'],
+    [{ mentioning: ['dave', ' '] }, '@dave'],
+    [{ query: 'ai', since: '2024-02-29', until: '2024-03-31' }, 'ai since:2024-02-29 until:2024-03-31'],
+    [{ minFaves: 0, minRetweets: 10, minReplies: 2 }, 'min_faves:0 min_retweets:10 min_replies:2'],
+    [{ lang: 'ja', filters: ['videos', 'links'], excludeFilters: ['replies'] }, 'lang:ja filter:native_video filter:links -filter:replies'],
+    [{ query: 'news', excludeWords: ['spam', 'foo bar', '"baz qux"'] }, 'news -spam -"foo bar" -"baz qux"'],
+    [{}, '']
+  ];
+
+  for (const [config, expected] of cases) {
+    await t.test(JSON.stringify(config), () => {
+      assert.equal(buildSearchQuery(config), expected);
+    });
+  }
+});
+
+test('buildSearchQuery: 不正な値はエラー', async t => {
+  const cases: Array<[SearchConfig, RegExp]> = [
+    [{ filters: ['video' as never] }, /未対応の検索フィルタです: video/],
+    [{ excludeFilters: ['toString' as never] }, /未対応の検索フィルタです: toString/],
+    [{ since: '2024/01/01' }, /since の日付が不正です/],
+    [{ since: '2023-02-29' }, /since の日付が不正です/],
+    [{ until: '2024-13-01' }, /until の日付が不正です/],
+    [{ until: '2024-01-01T00:00:00Z' }, /until の日付が不正です/]
+  ];
+
+  for (const [config, expected] of cases) {
+    await t.test(JSON.stringify(config), () => {
+      assert.throws(() => buildSearchQuery(config), expected);
+    });
+  }
+});
+
+test('buildSearchUrl', async t => {
+  const cases: Array<[SearchTab | undefined, string]> = [
+    [undefined, 'https://x.com/search?q=%E7%8C%AB+from%3Aalice&src=typed_query&f=live'],
+    ['top', 'https://x.com/search?q=%E7%8C%AB+from%3Aalice&src=typed_query'],
+    ['people', 'https://x.com/search?q=%E7%8C%AB+from%3Aalice&src=typed_query&f=user'],
+    ['media', 'https://x.com/search?q=%E7%8C%AB+from%3Aalice&src=typed_query&f=media']
+  ];
+
+  for (const [tab, expected] of cases) {
+    await t.test(`${tab}`, () => {
+      assert.equal(buildSearchUrl('猫 from:alice', tab), expected);
+    });
+  }
+
+  await t.test('未対応のタブはエラー', () => {
+    assert.throws(() => buildSearchUrl('猫', 'videos' as SearchTab), /未対応の検索タブです: videos/);
+    assert.throws(() => buildSearchUrl('猫', 'constructor' as SearchTab), /未対応の検索タブです: constructor/);
+  });
+});
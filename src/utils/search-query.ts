@@ -0,0 +1,118 @@
+// src/utils/search-query.ts
+// 構造化された検索条件をXの検索演算子構文に変換
+
+import { SearchConfig, SearchFilter, SearchTab } from '../types/interfaces.js';
+
+/**
+ * 検索タブとURLパラメータ f の対応
+ */
+const SEARCH_TAB_PARAMS: Record<SearchTab, string | null> = {
+  top: null,
+  latest: 'live',
+  people: 'user',
+  media: 'media'
+};
+
+/**
+ * filter: 演算子の対応（videos は native_video）
+ */
+const SEARCH_FILTER_OPERATORS: Record<SearchFilter, string> = {
+  media: 'media',
+  images: 'images',
+  videos: 'native_video',
+  links: 'links',
+  replies: 'replies',
+  quote: 'quote'
+};
+
+/**
+ * filter: 演算子に変換（未対応の種類はエラー）
+ */
+function filterOperator(filter: string): string {
+  if (!Object.prototype.hasOwnProperty.call(SEARCH_FILTER_OPERATORS, filter)) {
+    throw new Error(
+      `未対応の検索フィルタです: ${filter}（指定できる値: ${Object.keys(SEARCH_FILTER_OPERATORS).join(', ')}）`
+    );
+  }
+  return SEARCH_FILTER_OPERATORS[filter as SearchFilter];
+}
+
+/**
+ * since: / until: の日付（YYYY-MM-DD、実在する日付のみ）
+ */
+function dateOperator(operator: 'since' | 'until', date: string): string {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  const valid = /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(time) && new Date(time).toISOString().startsWith(date);
+  if (!valid) {
+    throw new Error(`${operator} の日付が不正です: ${date}（YYYY-MM-DD 形式で指定してください）`);
+  }
+  return `${operator}:${date}`;
+}
+
+/**
+ * 空白を含む語句はダブルクォートで囲む
+ */
+function quoteTerm(term: string): string {
+  const trimmed = term.trim();
+  return /\s/.test(trimmed) && !/^".*"$/.test(trimmed) ? `"${trimmed}"` : trimmed;
+}
+
+/**
+ * 複数アカウントの演算子をOR結合（1件ならそのまま）
+ */
+function accountOperator(operator: string, accounts: string[] = []): string | null {
+  const terms = accounts
+    .map(account => account.trim().replace(/^@/, ''))
+    .filter(Boolean)
+    .map(account => operator ? `${operator}:${account}` : `@${account}`);
+
+  if (terms.length === 0) return null;
+  return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+}
+
+/**
+ * SearchConfigからX検索クエリ文字列を組み立て
+ */
+export function buildSearchQuery(config: SearchConfig): string {
+  const parts: string[] = [];
+
+  if (config.query?.trim()) parts.push(config.query.trim());
+
+  const from = accountOperator('from', config.fromUsers);
+  const to = accountOperator('to', config.toUsers);
+  const mentioning = accountOperator('', config.mentioning);
+  if (from) parts.push(from);
+  if (to) parts.push(to);
+  if (mentioning) parts.push(mentioning);
+
+  if (config.since) parts.push(dateOperator('since', config.since));
+  if (config.until) parts.push(dateOperator('until', config.until));
+
+  if (config.minFaves !== undefined) parts.push(`min_faves:${config.minFaves}`);
+  if (config.minRetweets !== undefined) parts.push(`min_retweets:${config.minRetweets}`);
+  if (config.minReplies !== undefined) parts.push(`min_replies:${config.minReplies}`);
+
+  if (config.lang) parts.push(`lang:${config.lang}`);
+
+  (config.filters || []).forEach(filter => parts.push(`filter:${filterOperator(filter)}`));
+  (config.excludeFilters || []).forEach(filter => parts.push(`-filter:${filterOperator(filter)}`));
+
+  (config.excludeWords || [])
+    .filter(word => word.trim())
+    .forEach(word => parts.push(`-${quoteTerm(word)}`));
+
+  return parts.join(' ');
+}
+
+/**
+ * 検索クエリとタブから検索URLを組み立て
+ */
+export function buildSearchUrl(compiledQuery: string, tab: SearchTab = 'latest'): string {
+  if (!Object.prototype.hasOwnProperty.call(SEARCH_TAB_PARAMS, tab)) {
+    throw new Error(`未対応の検索タブです: ${tab}（指定できる値: ${Object.keys(SEARCH_TAB_PARAMS).join(', ')}）`);
+  }
+  const params = new URLSearchParams({ q: compiledQuery, src: 'typed_query' });
+  const tabParam = SEARCH_TAB_PARAMS[tab];
+  if (tabParam) params.set('f', tabParam);
+  return `https://x.com/search?${params.toString()}`;
+}
@@ -1,6 +1,8 @@
 // src/utils/selectors.ts
 // X(Twitter)のDOMセレクタを一元管理 - 2025年最新版
 
+import { parseCount } from './locale-parser.js';
+
 /**
  * ログイン関連のセレクタ（2025年対応）
  */
@@ -15,6 +17,16 @@ export const LOGIN_SELECTORS = {
   loginPrompt: '[role="dialog"]'
 } as const;
 
+/**
+ * ログイン中のアカウント表示（サイドナビ）とログイン済みでのみ表示される要素
+ */
+export const ACCOUNT_SELECTORS = {
+  accountSwitcher: '[data-testid="SideNav_AccountSwitcher_Button"]',
+  profileLink: 'a[data-testid="AppTabBar_Profile_Link"]',
+  homeTimeline: '[aria-label="Home timeline"], [aria-label="ホームタイムライン"], [aria-label^="Timeline: Your Home Timeline"]',
+  composeButton: '[data-testid="SideNav_NewTweet_Button"]'
+} as const;
+
 /**
  * ツイート関連のセレクタ（2025年対応 - 複数パターン）
  */
@@ -59,7 +71,115 @@ export const PROFILE_SELECTORS = {
   
   // 新しいパターン
   profileHeader: '[data-testid="UserProfileHeader"]',
-  userAvatar: '[data-testid="UserAvatar"]'
+  userAvatar: '[data-testid="UserAvatar"]',
+
+  // ヘッダー項目（場所・URL・登録日など）
+  userLocation: '[data-testid="UserLocation"]',
+  userUrl: '[data-testid="UserUrl"]',
+  userJoinDate: '[data-testid="UserJoinDate"]',
+  userBirthdate: '[data-testid="UserBirthdate"]',
+  userProfessionalCategory: '[data-testid="UserProfessionalCategory"]',
+
+  // 画像
+  avatarImage: 'a[href$="/photo"] img, [data-testid^="UserAvatar-Container"] img',
+  bannerImage: 'a[href$="/header_photo"] img',
+
+  // 投稿数（上部ナビゲーションの名前の下）
+  postCountCandidates: '[data-testid="primaryColumn"] h2[role="heading"] ~ div, [data-testid="primaryColumn"] div[dir="ltr"]'
+} as const;
+
+/**
+ * フォロワー・フォロー一覧のユーザーセル
+ */
+export const USER_CELL_SELECTORS = {
+  cell: '[data-testid="UserCell"]',
+  profileLink: 'a[href^="/"][role="link"]',
+  verifiedIcon: '[data-testid="icon-verified"]',
+  followsYou: '[data-testid="userFollowIndicator"]',
+  avatarImage: 'img[src*="profile_images"]',
+  textBlock: 'div[dir="auto"]'
+} as const;
+
+/**
+ * 会話スレッド（ツイート詳細ページ）関連のセレクタ・文言
+ */
+export const THREAD_SELECTORS = {
+  cell: '[data-testid="cellInnerDiv"]',
+  tweet: 'article[data-testid="tweet"]',
+  sectionHeading: 'h2',
+  expanderButton: 'button, [role="button"]',
+  // 「さらに返信を表示」系の展開ボタン
+  moreRepliesTexts: ['Show more replies', 'Show replies', 'Show more', 'さらに返信を表示', '返信を表示', '他の返信を表示'],
+  // 非表示（不快な内容・スパムの可能性）の返信セクション
+  hiddenRepliesTexts: ['Show additional replies', 'offensive content', 'Show probable spam', '不快な内容', 'スパムの可能性']
+} as const;
+
+/**
+ * 個別ツイートページ（/status/<id>）用のセレクタ
+ */
+export const TWEET_DETAIL_SELECTORS = {
+  showMoreLink: '[data-testid="tweet-text-show-more-link"]',
+  sourceLabel: 'a[href*="source-labels"]',
+  placeLink: 'a[href*="/places/"]',
+  // 削除済み・非公開・存在しないポストの表示
+  unavailableTexts: {
+    deleted: ['This post was deleted', 'このポストは削除されました', 'This Tweet was deleted'],
+    protected: ['protected', '非公開', 'are protected'],
+    notFound: ["this page doesn't exist", 'このページは存在しません', 'This post is unavailable', 'このポストは表示できません']
+  }
+} as const;
+
+/**
+ * レート制限・読み込みエラー画面（ツイート本文の誤検出を避けるため article 外のみ判定）
+ */
+export const BLOCKED_SCREEN_SELECTORS = {
+  root: '[data-testid="primaryColumn"]',
+  message: 'span',
+  retryButton: '[role="button"]',
+  retryButtonTexts: ['Retry', '再試行', 'やりなおす'],
+  rateLimitTexts: ['Rate limit exceeded', 'レート制限を超えました', 'You are over the daily limit', '1日の上限を超えました'],
+  errorTexts: ['Something went wrong. Try reloading.', 'Something went wrong', '問題が発生しました。再読み込みしてください。', 'エラーが発生しました']
+} as const;
+
+/**
+ * アカウント・ページの状態表示（存在しない・凍結・非公開・年齢制限・ログイン要求）
+ */
+export const PAGE_STATE_SELECTORS = {
+  root: '[data-testid="primaryColumn"]',
+  message: 'span',
+  loginPaths: ['/i/flow/login', '/login', '/i/flow/signup'],
+  loginWall: '[data-testid="loginButton"], [data-testid="signupButton"], a[href="/login"]',
+  suspendedTexts: ['Account suspended', 'アカウントは凍結されています'],
+  notFoundTexts: ["This account doesn’t exist", "This account doesn't exist", 'このアカウントは存在しません', "this page doesn’t exist", "this page doesn't exist", 'このページは存在しません'],
+  protectedTexts: ['These posts are protected', 'These Tweets are protected', 'ポストは非公開です', 'ツイートは非公開です'],
+  ageRestrictedTexts: ['Age-restricted adult content', 'age-restricted', '年齢制限']
+} as const;
+
+/**
+ * アンケート・リンクカード・コミュニティノート
+ */
+export const TWEET_CARD_SELECTORS = {
+  poll: '[data-testid="cardPoll"]',
+  pollChoice: '[role="radio"], [role="button"], button',
+  cardWrapper: '[data-testid="card.wrapper"]',
+  cardLink: 'a[href]',
+  cardDetail: '[data-testid="card.layoutLarge.detail"], [data-testid="card.layoutSmall.detail"]',
+  communityNote: '[data-testid="birdwatch-pivot"]',
+  // 投票終了の表示
+  pollClosedTexts: ['Final results', '最終結果']
+} as const;
+
+/**
+ * 広告・センシティブな内容の判別用（表示言語ごとの文言）
+ */
+export const TWEET_LABEL_SELECTORS = {
+  tweetText: '[data-testid="tweetText"]',
+  // ヘッダー部分に単独で表示される広告ラベル
+  promotedTexts: ['Promoted', 'Ad', 'プロモーション', '広告'],
+  // センシティブな内容の警告（メディア・本文を覆う表示）
+  sensitiveWarningTexts: ['Content warning', 'sensitive content', 'センシティブな内容', 'センシティブな情報'],
+  revealButton: 'button, [role="button"]',
+  revealButtonTexts: ['Show', 'View', '表示', '表示する']
 } as const;
 
 /**
@@ -100,29 +220,31 @@ export const AUTHOR_SELECTORS = [
 export const LOGIN_SELECTORS_ARRAY = Object.values(LOGIN_SELECTORS);
 
 /**
- * 数値の抽出（K, M表記も考慮） - 改良版
+ * 数値の抽出（K, M, 万, 億表記も考慮） - 改良版
+ * 桁区切り・小数点のロケール差は locale-parser に委譲
  */
 export function parseEngagement(text: string): number {
   if (!text || typeof text !== 'string') return 0;
-  
-  // 数字以外の文字を除去してマッチング
-  const cleanText = text.replace(/[^\d.,KMBkmb]/gi, '');
-  const match = cleanText.match(/([\d,]+\.?\d*)\s*([KMBkmb]?)/i);
-  
-  if (!match) {
-    // フォールバック: 単純な数字抽出
-    const numMatch = text.match(/\d+/);
-    return numMatch ? parseInt(numMatch[0]) : 0;
+  return parseCount(text);
+}
+
+/**
+ * 登録日テキスト（"Joined March 2010" / "2010年3月からXを利用しています"）をYYYY-MMに変換
+ */
+export function parseJoinDate(text: string): string {
+  const ja = text.match(/(\d{4})年\s*(\d{1,2})月/);
+  if (ja) return `${ja[1]}-${ja[2].padStart(2, '0')}`;
+
+  const months = ['january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december'];
+  const en = text.match(/([A-Za-z]+)\s+(\d{4})/);
+  if (en) {
+    const monthIndex = months.findIndex(m => m.startsWith(en[1].toLowerCase().slice(0, 3)));
+    if (monthIndex >= 0) return `${en[2]}-${String(monthIndex + 1).padStart(2, '0')}`;
   }
-  
-  let num = parseFloat(match[1].replace(/,/g, ''));
-  const suffix = match[2].toUpperCase();
-  
-  if (suffix === 'K') num *= 1000;
-  else if (suffix === 'M') num *= 1000000;
-  else if (suffix === 'B') num *= 1000000000;
-  
-  return Math.floor(num);
+
+  // 解析できない場合は元のテキストを返す
+  return text.trim();
 }
 
 /**